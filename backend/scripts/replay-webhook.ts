@@ -0,0 +1,73 @@
+// Replays sample provider webhook payloads against a running server, signed the way Replicate signs them.
+//
+//   npm run webhook:replay -- --prediction <predictionId> [starting processing succeeded ...]
+//
+// Options:
+//   --prediction <id>   prediction ID substituted into the samples (required to update a real job)
+//   --url <url>         webhook endpoint (default: PUBLIC_BASE_URL/api/webhooks/provider)
+//   --secret <whsec_>   signing secret (default: WEBHOOK_SECRET, or the mock provider's built-in secret)
+//   --bad-signature     sign with the wrong secret to check that the server rejects it
+import fetch from 'node-fetch';
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { randomBytes } from 'crypto';
+import { PUBLIC_BASE_URL } from '../src/config.js';
+import { signWebhook } from '../src/services/swap-providers/index.js';
+import { MOCK_WEBHOOK_SECRET } from '../src/services/swap-providers/mock.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const SAMPLES_DIR = join(__dirname, 'webhook-samples');
+const DEFAULT_SAMPLES = ['starting', 'processing', 'succeeded'];
+
+function parseArgs(argv: string[]) {
+  const options = {
+    predictionId: `replay-${randomBytes(4).toString('hex')}`,
+    url: `${PUBLIC_BASE_URL}/api/webhooks/provider`,
+    secret: MOCK_WEBHOOK_SECRET,
+    badSignature: false,
+    samples: [] as string[]
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--prediction') options.predictionId = argv[++i];
+    else if (arg === '--url') options.url = argv[++i];
+    else if (arg === '--secret') options.secret = argv[++i];
+    else if (arg === '--bad-signature') options.badSignature = true;
+    else options.samples.push(arg);
+  }
+
+  if (options.samples.length === 0) {
+    options.samples = DEFAULT_SAMPLES;
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const secret = options.badSignature ? `whsec_${randomBytes(24).toString('base64')}` : options.secret;
+
+  console.log('Replaying', options.samples.join(', '), 'for prediction', options.predictionId, 'to', options.url);
+
+  for (const sample of options.samples) {
+    const template = await readFile(join(SAMPLES_DIR, `${sample}.json`), 'utf8');
+    const body = JSON.stringify(JSON.parse(template.replace(/PREDICTION_ID/g, options.predictionId)));
+
+    const response = await fetch(options.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...signWebhook(secret, `msg_${randomBytes(8).toString('hex')}`, body) as Record<string, string>
+      },
+      body
+    });
+
+    console.log(`${sample}: ${response.status} ${await response.text()}`);
+  }
+}
+
+main().catch(error => {
+  console.error('Replay failed:', error);
+  process.exit(1);
+});
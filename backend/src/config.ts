@@ -0,0 +1,99 @@
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+// Ensure environment variables are loaded before anything reads them
+dotenv.config();
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const PORT = parseInt(process.env.PORT || '3001', 10);
+export const HOST = process.env.HOST || '0.0.0.0';
+
+// Directory served at /uploads; set elsewhere to keep test runs out of the working tree
+export const UPLOADS_DIR = process.env.UPLOADS_DIR || join(__dirname, '../uploads');
+
+// Directory for server-side state such as the job store
+export const DATA_DIR = process.env.DATA_DIR || join(__dirname, '../data');
+
+// Where hosted files (swap outputs, cached results) are kept: "local" (default, under uploads/) or "s3"
+export const STORAGE_DRIVER = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+
+// Any S3-compatible service (AWS, R2, MinIO...); S3_ENDPOINT defaults to AWS for the region
+export const S3_BUCKET = process.env.S3_BUCKET;
+export const S3_REGION = process.env.S3_REGION || 'us-east-1';
+export const S3_ENDPOINT = (process.env.S3_ENDPOINT || `https://s3.${S3_REGION}.amazonaws.com`).replace(/\/+$/, '');
+export const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID;
+export const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY;
+
+// Absolute URL the server is reachable at, used to build links to files we host
+export const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || `http://localhost:${PORT}`).replace(/\/+$/, '');
+// The localhost default only works for links opened on this machine
+export const PUBLIC_BASE_URL_CONFIGURED = !!process.env.PUBLIC_BASE_URL;
+
+// Providers can only call us back when we know our public address, so webhooks default to on
+// only when PUBLIC_BASE_URL is set explicitly
+export const WEBHOOKS_ENABLED = process.env.WEBHOOKS_ENABLED
+  ? process.env.WEBHOOKS_ENABLED === 'true'
+  : PUBLIC_BASE_URL_CONFIGURED;
+
+// Signing secret for provider webhooks ("whsec_..."); the Replicate provider fetches it from the API when unset
+export const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
+
+// Bearer token required by the /api/admin endpoints; they are disabled when unset
+export const ADMIN_TOKEN = process.env.ADMIN_TOKEN || null;
+
+// Which face swap backend to use: "replicate" (default) or "mock" for offline runs
+export const SWAP_PROVIDER = (process.env.SWAP_PROVIDER || 'replicate').toLowerCase();
+
+export const REPLICATE_API_TOKEN = process.env.REPLICATE_API_TOKEN;
+export const REPLICATE_SWAP_MODEL = process.env.REPLICATE_SWAP_MODEL || 'zetyquickly-org/faceswap-a-gif';
+export const REPLICATE_SWAP_VERSION =
+  process.env.REPLICATE_SWAP_VERSION || '974be35318aab27d78c8c935761e665620236d3b157a9b35385c7905c601d977';
+
+// Still images go to an image face swap model instead of the GIF one
+export const REPLICATE_IMAGE_SWAP_MODEL = process.env.REPLICATE_IMAGE_SWAP_MODEL || 'cdingram/face-swap';
+export const REPLICATE_IMAGE_SWAP_VERSION =
+  process.env.REPLICATE_IMAGE_SWAP_VERSION || 'd1d6ea8c8be89d664a07a457526f7128109dee7030fdac424788d762c71ed111';
+
+// Simulated processing time for the mock provider, in milliseconds
+export const MOCK_SWAP_DELAY_MS = parseInt(process.env.MOCK_SWAP_DELAY_MS || '1500', 10);
+
+// Makes every mock swap fail with this error message, for exercising failure handling
+export const MOCK_SWAP_ERROR = process.env.MOCK_SWAP_ERROR || null;
+
+// How many swap jobs may run against the provider at once
+export const SWAP_CONCURRENCY = Math.max(1, parseInt(process.env.SWAP_CONCURRENCY || '3', 10));
+
+// Automatic retries for failed swaps: total attempts per job and the first backoff delay in milliseconds
+export const SWAP_MAX_ATTEMPTS = Math.max(1, parseInt(process.env.SWAP_MAX_ATTEMPTS || '3', 10));
+export const SWAP_RETRY_BASE_DELAY_MS = parseInt(process.env.SWAP_RETRY_BASE_DELAY_MS || '5000', 10);
+
+// How often the server checks the provider for progress on running jobs, in milliseconds
+export const JOB_POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '3000', 10);
+
+// Fallback polling interval while webhooks are enabled, in milliseconds
+export const WEBHOOK_FALLBACK_POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_FALLBACK_POLL_INTERVAL_MS || '30000', 10);
+
+// API keys for GIF search; the offline fixture provider is used when neither is set
+export const GIPHY_API_KEY = process.env.GIPHY_API_KEY;
+export const TENOR_API_KEY = process.env.TENOR_API_KEY;
+
+// Where GIF search results come from: "giphy", "tenor" or "fixture"
+export const GIF_SEARCH_PROVIDER = (
+  process.env.GIF_SEARCH_PROVIDER || (GIPHY_API_KEY ? 'giphy' : TENOR_API_KEY ? 'tenor' : 'fixture')
+).toLowerCase();
+
+// Content rating passed to the search provider: g, pg, pg-13 or r
+export const GIF_SEARCH_RATING = (process.env.GIF_SEARCH_RATING || 'pg-13').toLowerCase();
+
+// Limits for uploaded swap targets: the upload itself, then the length, width and size of the GIF
+// the provider receives. Longer or larger clips are cut down rather than rejected.
+export const TARGET_UPLOAD_MAX_BYTES = parseInt(process.env.TARGET_UPLOAD_MAX_BYTES || String(50 * 1024 * 1024), 10);
+export const TARGET_MAX_DURATION_MS = parseInt(process.env.TARGET_MAX_DURATION_MS || '10000', 10);
+export const TARGET_MAX_WIDTH = parseInt(process.env.TARGET_MAX_WIDTH || '480', 10);
+export const TARGET_MAX_GIF_BYTES = parseInt(process.env.TARGET_MAX_GIF_BYTES || String(15 * 1024 * 1024), 10);
+
+// Face detection for uploaded photos: "retinaface" (an ONNX model run on the CPU), "skin" (a quick
+// colour heuristic that only warns) or "none" to accept any photo
+export const FACE_DETECTOR = (process.env.FACE_DETECTOR || 'retinaface').toLowerCase();
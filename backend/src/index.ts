@@ -1,19 +1,32 @@
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { HOST, PORT, UPLOADS_DIR } from './config.js';
 import uploadRoutes from './routes/upload.js';
 import swapRoutes from './routes/swap.js';
 import optimizeRoutes from './routes/optimize.js';
-
-dotenv.config();
+import exportRoutes from './routes/export.js';
+import editRoutes from './routes/edit.js';
+import captionRoutes from './routes/captions.js';
+import presetRoutes from './routes/presets.js';
+import catalogRoutes from './routes/catalog.js';
+import searchRoutes from './routes/search.js';
+import jobRoutes from './routes/jobs.js';
+import webhookRoutes from './routes/webhooks.js';
+import adminRoutes from './routes/admin.js';
+import mediaRoutes from './routes/media.js';
+import stickerRoutes from './routes/stickers.js';
+import stickerPackRoutes from './routes/sticker-packs.js';
+import { resumeJobs } from './services/jobs/index.js';
+import { probeCatalog } from './services/catalog/index.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const app = express();
-const PORT = parseInt(process.env.PORT || '3001', 10);
 
 app.use(cors());
+// Mounted before the JSON parser because signature checks need the raw request body
+app.use('/api', webhookRoutes);
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ limit: '50mb', extended: true }));
 
@@ -27,7 +40,8 @@ app.use((req, res, next) => {
   next();
 });
 
-app.use('/uploads', express.static(join(__dirname, '../uploads')));
+app.use('/uploads', express.static(UPLOADS_DIR));
+app.use(mediaRoutes);
 
 // Serve frontend static files in production
 if (process.env.NODE_ENV === 'production') {
@@ -37,6 +51,16 @@ if (process.env.NODE_ENV === 'production') {
 app.use('/api', uploadRoutes);
 app.use('/api', swapRoutes);
 app.use('/api', optimizeRoutes);
+app.use('/api', exportRoutes);
+app.use('/api', editRoutes);
+app.use('/api', captionRoutes);
+app.use('/api', presetRoutes);
+app.use('/api', catalogRoutes);
+app.use('/api', searchRoutes);
+app.use('/api', jobRoutes);
+app.use('/api', adminRoutes);
+app.use('/api/stickers/packs', stickerPackRoutes);
+app.use('/api/stickers', stickerRoutes);
 
 app.get('/health', (req, res) => {
   res.json({ status: 'OK' });
@@ -47,7 +71,7 @@ if (process.env.NODE_ENV === 'production') {
   // Use a more specific catch-all pattern that works with Express 5
   app.use((req, res, next) => {
     // Skip API routes
-    if (req.path.startsWith('/api') || req.path.startsWith('/uploads')) {
+    if (req.path.startsWith('/api') || req.path.startsWith('/uploads') || req.path.startsWith('/media')) {
       return next();
     }
     // Serve the frontend for all other routes
@@ -55,8 +79,8 @@ if (process.env.NODE_ENV === 'production') {
   });
 }
 
-const HOST = process.env.HOST || '0.0.0.0';
-
 app.listen(PORT, HOST, () => {
   console.log(`Server running on http://${HOST}:${PORT}`);
+  resumeJobs().catch(error => console.error('Failed to resume jobs:', error));
+  probeCatalog().catch(error => console.error('Failed to probe catalog:', error));
 });
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { ADMIN_TOKEN } from '../config.js';
+import { getCacheStats, purgeCache } from '../services/cache/index.js';
+import { deleteCatalogEntry, saveCatalogEntry, type CatalogEntryInput } from '../services/catalog/index.js';
+
+const router = Router();
+
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!ADMIN_TOKEN) {
+    return res.status(404).json({ error: 'Admin endpoints are disabled' });
+  }
+
+  const provided = Buffer.from((req.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(ADMIN_TOKEN);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ error: 'Invalid admin token' });
+  }
+  next();
+}
+
+router.use('/admin', requireAdmin);
+
+const CATALOG_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+function validateCatalogEntry(body: Partial<CatalogEntryInput>): string | null {
+  if (!body.title || typeof body.title !== 'string') return 'Title is required';
+  if (!body.sourceUrl || typeof body.sourceUrl !== 'string' || !/^https?:\/\//.test(body.sourceUrl)) {
+    return 'Source URL must be an http(s) URL';
+  }
+  if (!body.category || typeof body.category !== 'string') return 'Category is required';
+  if (body.tags !== undefined && (!Array.isArray(body.tags) || !body.tags.every(tag => typeof tag === 'string'))) {
+    return 'Tags must be an array of strings';
+  }
+  if (body.type !== undefined && body.type !== 'gif' && body.type !== 'image') return 'Type must be gif or image';
+  if (body.faces !== undefined && body.faces !== null && (!Number.isInteger(body.faces) || body.faces < 0)) {
+    return 'Faces must be a whole number of 0 or more';
+  }
+  return null;
+}
+
+// Result cache size and hit counts
+router.get('/admin/cache', async (req: Request, res: Response) => {
+  try {
+    res.json(await getCacheStats());
+  } catch (error) {
+    console.error('Cache stats error:', error);
+    res.status(500).json({ 
+      error: 'Failed to read cache stats', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Purge cached results, optionally only those matching a key, source hash or target URL
+router.delete('/admin/cache', async (req: Request, res: Response) => {
+  try {
+    const filter = { ...req.query, ...req.body };
+    const purged = await purgeCache({
+      key: typeof filter.key === 'string' ? filter.key : undefined,
+      sourceHash: typeof filter.sourceHash === 'string' ? filter.sourceHash : undefined,
+      targetGifUrl: typeof filter.targetGifUrl === 'string' ? filter.targetGifUrl : undefined
+    });
+
+    console.log(`Purged ${purged} cached results`);
+    res.json({ success: true, purged });
+  } catch (error) {
+    console.error('Cache purge error:', error);
+    res.status(500).json({ 
+      error: 'Cache purge failed', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Add or replace a catalog entry; its dimensions and frame count are read from the source
+router.put('/admin/catalog/:id', async (req: Request, res: Response) => {
+  try {
+    if (!CATALOG_ID_PATTERN.test(req.params.id)) {
+      return res.status(400).json({ error: 'Catalog IDs may only contain letters, digits, - and _' });
+    }
+    const invalid = validateCatalogEntry(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const { title, sourceUrl, category, tags = [], type, faces } = req.body;
+    const entry = await saveCatalogEntry({ id: req.params.id, title, sourceUrl, category, tags, type, faces });
+    console.log('Saved catalog entry', entry.id);
+    res.json(entry);
+  } catch (error) {
+    console.error('Catalog save error:', error);
+    res.status(500).json({
+      error: 'Failed to save catalog entry',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.delete('/admin/catalog/:id', async (req: Request, res: Response) => {
+  try {
+    if (!(await deleteCatalogEntry(req.params.id))) {
+      return res.status(404).json({ error: 'Catalog entry not found' });
+    }
+    console.log('Deleted catalog entry', req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Catalog delete error:', error);
+    res.status(500).json({
+      error: 'Failed to delete catalog entry',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,64 @@
+import type { Request, Response } from 'express';
+import { createHash } from 'crypto';
+
+export interface BinaryResponseOptions {
+  contentType: string;
+  // Sent as an attachment with this name; omitted for inline media
+  filename?: string;
+  cacheControl?: string;
+  headers?: Record<string, string>;
+}
+
+// Strong validator, so it can also be used with If-Range
+export function binaryETag(data: Buffer): string {
+  return `"${createHash('sha256').update(data).digest('base64url').slice(0, 32)}"`;
+}
+
+// Send generated media as raw bytes with an ETag and single-range support. Conditional and range
+// requests only apply to GET and HEAD; other methods always get the whole body.
+export function sendBinary(req: Request, res: Response, data: Buffer, options: BinaryResponseOptions): void {
+  const etag = binaryETag(data);
+  res.setHeader('Content-Type', options.contentType);
+  res.setHeader('ETag', etag);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Cache-Control', options.cacheControl ?? 'private, no-cache');
+  if (options.filename) {
+    res.setHeader('Content-Disposition', `attachment; filename="${options.filename}"`);
+  }
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    res.setHeader(name, value);
+  }
+  // Let cross-origin frontends read the file name and any report headers
+  res.setHeader(
+    'Access-Control-Expose-Headers',
+    ['ETag', 'Content-Disposition', 'Content-Range', ...Object.keys(options.headers ?? {})].join(', ')
+  );
+
+  const conditional = req.method === 'GET' || req.method === 'HEAD';
+  if (conditional && req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  // A stale If-Range means the client's partial copy is outdated, so send everything
+  const ifRange = req.headers['if-range'];
+  const ranges = conditional && req.headers.range && (!ifRange || ifRange === etag) ? req.range(data.length) : undefined;
+
+  if (ranges === -1) {
+    res.setHeader('Content-Range', `bytes */${data.length}`);
+    res.status(416).end();
+    return;
+  }
+  // Multiple ranges would need a multipart body; sending the whole file is also allowed
+  if (ranges && ranges !== -2 && ranges.type === 'bytes' && ranges.length === 1) {
+    const { start, end } = ranges[0];
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${data.length}`);
+    res.setHeader('Content-Length', (end - start + 1).toString());
+    res.end(req.method === 'HEAD' ? undefined : data.subarray(start, end + 1));
+    return;
+  }
+
+  res.setHeader('Content-Length', data.length.toString());
+  res.end(req.method === 'HEAD' ? undefined : data);
+}
@@ -0,0 +1,39 @@
+import { Router, Request, Response } from 'express';
+import { captionSvg, validateCaption, type Caption } from '../services/captions/index.js';
+
+const router = Router();
+
+interface CaptionPreviewRequest {
+  // Pixel size of the GIF being captioned
+  width?: number;
+  height?: number;
+  caption?: Caption;
+}
+
+const MAX_DIMENSION = 4096;
+
+// Returns the exact overlay the caption edit operation composites, as SVG, so editors can show it
+// over the playing GIF without rendering any frames
+router.post('/captions/preview', (req: Request<{}, {}, CaptionPreviewRequest>, res: Response) => {
+  try {
+    const { width, height, caption } = req.body;
+    if (![width, height].every(size => Number.isInteger(size) && size > 0 && size <= MAX_DIMENSION)) {
+      return res.status(400).json({ error: `Width and height must be whole numbers from 1 to ${MAX_DIMENSION}` });
+    }
+
+    const invalid = validateCaption(caption);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    res.type('image/svg+xml').send(captionSvg(width, height, caption));
+  } catch (error) {
+    console.error('Caption preview error:', error);
+    res.status(500).json({
+      error: 'Failed to render caption preview',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import {
+  DEFAULT_CATALOG_PAGE_SIZE,
+  getCatalogEntry,
+  listCatalog,
+  MAX_CATALOG_PAGE_SIZE
+} from '../services/catalog/index.js';
+
+const router = Router();
+
+const queryString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+// Memes users can pick as swap targets, filtered by category, tag or search words and paged
+router.get('/catalog', async (req: Request, res: Response) => {
+  try {
+    const page = req.query.page ? Number(req.query.page) : 1;
+    const pageSize = req.query.pageSize ? Number(req.query.pageSize) : DEFAULT_CATALOG_PAGE_SIZE;
+    if (!Number.isInteger(page) || page < 1) {
+      return res.status(400).json({ error: 'Page must be a whole number of 1 or more' });
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_CATALOG_PAGE_SIZE) {
+      return res.status(400).json({ error: `Page size must be a whole number from 1 to ${MAX_CATALOG_PAGE_SIZE}` });
+    }
+
+    res.json(
+      await listCatalog({
+        category: queryString(req.query.category),
+        tag: queryString(req.query.tag),
+        q: queryString(req.query.q),
+        page,
+        pageSize
+      })
+    );
+  } catch (error) {
+    console.error('Catalog error:', error);
+    res.status(500).json({
+      error: 'Failed to load catalog',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.get('/catalog/:id', async (req: Request, res: Response) => {
+  try {
+    const entry = await getCatalogEntry(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ error: 'Catalog entry not found' });
+    }
+    res.json(entry);
+  } catch (error) {
+    console.error('Catalog entry error:', error);
+    res.status(500).json({
+      error: 'Failed to load catalog entry',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,63 @@
+import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { loadGif, resolveMediaId, saveMedia } from '../services/media.js';
+import { editGif, validateOperations, type EditOperation } from '../services/editor/index.js';
+
+const router = Router();
+
+interface EditRequest {
+  // Any GIF URL; our own /media links are read from storage instead of downloaded
+  gifUrl?: string;
+  // ID of a stored swap or edit result
+  mediaId?: string;
+  // Applied in order, e.g. [{ op: 'trim', startMs: 0, endMs: 2000 }, { op: 'boomerang' }]
+  operations?: EditOperation[];
+}
+
+// Edits never overwrite their source; the output is stored as new media with its own ID
+router.post('/edit', async (req: Request<{}, {}, EditRequest>, res: Response) => {
+  try {
+    const { operations } = req.body;
+    const gifUrl = req.body.mediaId || req.body.gifUrl;
+    if (!gifUrl || typeof gifUrl !== 'string') {
+      return res.status(400).json({ error: 'GIF URL or media ID is required' });
+    }
+
+    const invalid = validateOperations(operations);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    console.log(`Editing GIF (${operations.map(op => op.op).join(', ')}):`, gifUrl);
+    const gifBuffer = await loadGif(gifUrl);
+    const result = await editGif(gifBuffer, operations);
+    if (typeof result === 'string') {
+      return res.status(400).json({ error: result });
+    }
+
+    const id = `edit-${randomUUID()}`;
+    const url = await saveMedia(id, result.data);
+
+    res.json({
+      success: true,
+      id,
+      url,
+      sourceId: resolveMediaId(gifUrl),
+      operations,
+      width: result.width,
+      height: result.height,
+      frames: result.frames,
+      durationMs: result.durationMs,
+      loop: result.loop,
+      size: result.data.length
+    });
+  } catch (error) {
+    console.error('Edit error:', error);
+    res.status(500).json({
+      error: 'Failed to edit GIF',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,100 @@
+import { Router, Request, Response } from 'express';
+import { loadGif } from '../services/media.js';
+import { DEFAULT_EXPORT_QUALITY, EXPORT_FORMATS, exportGif, getExportEncoder } from '../services/export/index.js';
+import { getPreset, PLATFORM_PRESETS } from '../services/presets.js';
+import { sendBinary } from './binary-response.js';
+
+const router = Router();
+
+interface ExportRequest {
+  // Any GIF URL; our own /media links are read from storage instead of downloaded
+  gifUrl?: string;
+  // ID of a stored swap result
+  mediaId?: string;
+  // One of gif, mp4, webm, apng, webp, avif, png, jpeg; defaults to the preset's format
+  format?: string;
+  // Platform preset from GET /api/presets, applying its size, dimension and duration limits
+  preset?: string;
+  // 1-100, defaults to 80
+  quality?: number | string;
+  // Maximum width in pixels
+  width?: number | string;
+}
+
+const MAX_WIDTH = 2048;
+
+function parseNumber(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  return typeof value === 'number' ? value : Number(value);
+}
+
+// POST takes a JSON body; GET takes the same fields as query parameters so plain links can download
+async function handleExport(req: Request, res: Response, fields: ExportRequest): Promise<Response | void> {
+  try {
+    const gifUrl = fields.mediaId || fields.gifUrl;
+    if (!gifUrl || typeof gifUrl !== 'string') {
+      return res.status(400).json({ error: 'GIF URL or media ID is required' });
+    }
+
+    const preset = fields.preset ? getPreset(fields.preset) : null;
+    if (fields.preset && !preset) {
+      return res.status(400).json({ error: `Preset must be one of: ${PLATFORM_PRESETS.map(p => p.id).join(', ')}` });
+    }
+
+    const encoder = getExportEncoder(typeof fields.format === 'string' ? fields.format : preset?.format ?? '');
+    if (!encoder) {
+      return res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const quality = parseNumber(fields.quality) ?? DEFAULT_EXPORT_QUALITY;
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      return res.status(400).json({ error: 'Quality must be a whole number from 1 to 100' });
+    }
+    const width = parseNumber(fields.width) ?? preset?.maxWidth ?? undefined;
+    if (width !== undefined && (!Number.isInteger(width) || width < 16 || width > MAX_WIDTH)) {
+      return res.status(400).json({ error: `Width must be a whole number from 16 to ${MAX_WIDTH}` });
+    }
+
+    console.log(`Exporting ${encoder.format}${preset ? ` for ${preset.name}` : ''} (quality ${quality}${width ? `, width ${width}` : ''}):`, gifUrl);
+    const gifBuffer = await loadGif(gifUrl);
+    const result = await exportGif(gifBuffer, encoder.format, {
+      quality,
+      width,
+      height: preset?.maxHeight ?? undefined,
+      maxBytes: preset?.maxBytes,
+      maxDurationMs: preset?.maxDurationMs ?? undefined
+    });
+
+    sendBinary(req, res, result.data, {
+      contentType: result.contentType,
+      filename: `reaction.${result.extension}`,
+      headers: {
+        'X-Export-Format': result.format,
+        'X-Export-Animated': String(result.animated),
+        'X-Export-Quality': String(result.quality),
+        ...(preset ? { 'X-Export-Preset': preset.id, 'X-Export-Fits': String(result.fits) } : {})
+      }
+    });
+  } catch (error) {
+    console.error('Export error:', error);
+    res.status(500).json({
+      error: 'Failed to export file',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+router.post('/export', (req: Request<{}, {}, ExportRequest>, res: Response) => handleExport(req, res, req.body));
+
+router.get('/export', (req: Request, res: Response) =>
+  handleExport(req, res, {
+    gifUrl: req.query.url as string | undefined,
+    mediaId: req.query.id as string | undefined,
+    format: req.query.format as string | undefined,
+    preset: req.query.preset as string | undefined,
+    quality: req.query.quality as string | undefined,
+    width: req.query.width as string | undefined
+  })
+);
+
+export default router;
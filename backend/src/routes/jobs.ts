@@ -0,0 +1,51 @@
+import { Router, Request, Response } from 'express';
+import { getJob, listJobs, refreshJob, type JobStatus } from '../services/jobs/index.js';
+
+const router = Router();
+
+// List recorded swap jobs, newest first
+router.get('/jobs', async (req: Request, res: Response) => {
+  try {
+    const { status, limit, offset } = req.query;
+
+    const result = await listJobs({
+      status: typeof status === 'string' ? status as JobStatus : undefined,
+      limit: typeof limit === 'string' ? Math.min(Math.max(parseInt(limit, 10) || 50, 1), 200) : undefined,
+      offset: typeof offset === 'string' ? Math.max(parseInt(offset, 10) || 0, 0) : undefined
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error('Job list error:', error);
+    res.status(500).json({ 
+      error: 'Failed to list jobs', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Get a single job, refreshing it from the provider if it is still running
+router.get('/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const job = await getJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    try {
+      res.json(await refreshJob(job));
+    } catch (error) {
+      console.error('Job refresh failed, returning stored state:', error);
+      res.json(job);
+    }
+  } catch (error) {
+    console.error('Job lookup error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get job', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+export default router;
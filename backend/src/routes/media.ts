@@ -0,0 +1,39 @@
+import { Router, Request, Response } from 'express';
+import { findMedia, isMediaId, MEDIA_TYPES } from '../services/media.js';
+import { adoptProviderOutput, getJob } from '../services/jobs/index.js';
+import { sendBinary } from './binary-response.js';
+
+const router = Router();
+
+// Stable links for swap results; the content behind an ID never changes, so it can be cached indefinitely.
+// GIF results are served at .gif, still image results at .png or .jpg.
+router.get('/media/:id.:ext', async (req: Request, res: Response) => {
+  try {
+    const { id, ext } = req.params;
+    if (!isMediaId(id) || !MEDIA_TYPES[ext]) {
+      return res.status(400).json({ error: 'Invalid media ID' });
+    }
+
+    let media = await findMedia(id);
+    if (!media) {
+      const job = await getJob(id);
+      if (job) {
+        await adoptProviderOutput(job);
+        media = await findMedia(id);
+      }
+    }
+    if (!media || media.extension !== ext) {
+      return res.status(404).json({ error: 'Media not found' });
+    }
+
+    sendBinary(req, res, media.data, { contentType: media.contentType, cacheControl: 'public, max-age=31536000, immutable' });
+  } catch (error) {
+    console.error('Media error:', error);
+    res.status(500).json({ 
+      error: 'Failed to load media', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+export default router;
@@ -1,23 +1,23 @@
 import { Router, Request, Response } from 'express';
-import fetch from 'node-fetch';
 import sharp from 'sharp';
+import { loadGif } from '../services/media.js';
+import { optimizeGif } from '../services/optimizer/index.js';
+import { DEFAULT_PRESET, getPreset, PLATFORM_PRESETS } from '../services/presets.js';
+import { sendBinary } from './binary-response.js';
 
 const router = Router();
 
 interface OptimizeRequest {
-  gifUrl: string;
-}
-
-// Helper function to download file from URL
-async function downloadFile(url: string): Promise<Buffer> {
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    throw new Error(`Failed to download file: ${response.statusText}`);
-  }
-  
-  const buffer = await response.buffer();
-  return buffer;
+  // Any GIF URL; our own /media links are read from storage instead of downloaded
+  gifUrl?: string;
+  // ID of a stored swap result
+  mediaId?: string;
+  // Platform preset from GET /api/presets; defaults to whatsapp
+  preset?: string;
+  // Older name for preset
+  budget?: string;
+  // Explicit size budget in bytes, overriding the preset's
+  maxBytes?: number | string;
 }
 
 // Helper function to verify if file is a GIF
@@ -27,23 +27,31 @@ function isGif(buffer: Buffer): boolean {
   return magic === '474946383761' || magic === '474946383961';
 }
 
-
-
-
-// Main optimize endpoint with improved quality preservation
-router.post('/optimize-gif', async (req: Request<{}, {}, OptimizeRequest>, res: Response): Promise<Response | void> => {
+// Main optimize endpoint: search for the least lossy settings that fit the size budget. Responds with the
+// GIF itself, and the optimizer report in X- headers; ?encoding=base64 returns the older JSON with a data URL.
+async function handleOptimize(req: Request, res: Response, fields: OptimizeRequest): Promise<Response | void> {
   try {
-    const { gifUrl } = req.body;
+    const gifUrl = fields.mediaId || fields.gifUrl;
     
-    if (!gifUrl) {
-      return res.status(400).json({ error: 'GIF URL is required' });
+    if (!gifUrl || typeof gifUrl !== 'string') {
+      return res.status(400).json({ error: 'GIF URL or media ID is required' });
     }
+
+    const maxBytes = fields.maxBytes === undefined || fields.maxBytes === '' ? undefined : Number(fields.maxBytes);
+    const preset = getPreset(fields.preset || fields.budget || DEFAULT_PRESET);
+    if (!preset) {
+      return res.status(400).json({ error: `Preset must be one of: ${PLATFORM_PRESETS.map(p => p.id).join(', ')}` });
+    }
+    if (maxBytes !== undefined && (!Number.isInteger(maxBytes) || maxBytes < 1024)) {
+      return res.status(400).json({ error: 'maxBytes must be a whole number of at least 1024' });
+    }
+    const limits = { ...preset, maxBytes: maxBytes ?? preset.maxBytes };
     
-    console.log('Optimizing GIF:', gifUrl);
+    console.log(`Optimizing GIF for ${preset.name}:`, gifUrl, 'to', limits.maxBytes, 'bytes');
     console.log('Request from:', req.headers['user-agent']);
     
     // Download the GIF
-    const gifBuffer = await downloadFile(gifUrl);
+    const gifBuffer = await loadGif(gifUrl);
     console.log('Downloaded GIF, size:', gifBuffer.length, 'bytes (', (gifBuffer.length / 1024 / 1024).toFixed(2), 'MB)');
     
     // Verify it's actually a GIF
@@ -51,65 +59,54 @@ router.post('/optimize-gif', async (req: Request<{}, {}, OptimizeRequest>, res:
       console.log('File is not a GIF format');
     }
     
+    let data: Buffer;
+    let report: Record<string, unknown>;
     try {
-      let optimizedBuffer: Buffer;
-      
-      // WhatsApp's limit is 16MB, but we'll use different thresholds for quality
-      const size = gifBuffer.length;
-      const sizeMB = size / 1024 / 1024;
-      
-      if (sizeMB > 15) {
-        // Only resize if absolutely necessary for WhatsApp
-        console.log('GIF exceeds 15MB, must resize for WhatsApp...');
-        
-        const metadata = await sharp(gifBuffer).metadata();
-        const scaleFactor = Math.sqrt(14 * 1024 * 1024 / size); // Target 14MB
-        const newWidth = Math.floor((metadata.width || 500) * scaleFactor);
-        
-        optimizedBuffer = await sharp(gifBuffer, { animated: true })
-          .resize(newWidth, undefined, {
-            withoutEnlargement: true,
-            fit: 'inside'
-          })
-          .gif({
-            colours: 200, // Increased from 128 for better quality
-            dither: 1.0
-          })
-          .toBuffer();
-          
-      } else {
-        // For GIFs under 15MB, return original without any quality loss
-        console.log('GIF is', sizeMB.toFixed(2), 'MB, preserving original quality');
-        optimizedBuffer = gifBuffer;
-      }
-      
-      console.log('Final GIF size:', optimizedBuffer.length, 'bytes (', (optimizedBuffer.length / 1024 / 1024).toFixed(2), 'MB)');
-      
-      const base64Data = `data:image/gif;base64,${optimizedBuffer.toString('base64')}`;
+      const result = await optimizeGif(gifBuffer, limits);
+      console.log('Final GIF size:', result.data.length, 'bytes (', (result.data.length / 1024 / 1024).toFixed(2), 'MB)', result.fits ? '' : '- over budget');
       
-      res.json({
-        success: true,
-        optimizedGif: base64Data,
-        format: 'gif',
-        originalSize: gifBuffer.length,
-        optimizedSize: optimizedBuffer.length
-      });
+      data = result.data;
+      report = {
+        preset: preset.id,
+        budget: result.budgetBytes,
+        optimized: result.optimized,
+        fits: result.fits,
+        params: result.params,
+        quality: result.quality,
+        attempts: result.attempts,
+        ...(result.fits ? {} : { warning: 'Could not get the GIF under the size budget; returned the smallest version' })
+      };
       
     } catch (sharpError) {
       console.error('Sharp processing error:', sharpError);
       
       // If Sharp fails, return original
-      const base64Data = `data:image/gif;base64,${gifBuffer.toString('base64')}`;
-      
-      res.json({
+      data = gifBuffer;
+      report = { warning: 'Returned original GIF' };
+    }
+
+    if (req.query.encoding === 'base64') {
+      return res.json({
         success: true,
-        optimizedGif: base64Data,
+        optimizedGif: `data:image/gif;base64,${data.toString('base64')}`,
         format: 'gif',
         originalSize: gifBuffer.length,
-        optimizedSize: gifBuffer.length,
-        warning: 'Returned original GIF'
+        optimizedSize: data.length,
+        ...report
       });
     }
+
+    const headers: Record<string, string> = { 'X-Original-Size': gifBuffer.length.toString() };
+    if (report.params !== undefined) {
+      headers['X-Optimize-Preset'] = preset.id;
+      headers['X-Optimize-Fits'] = String(report.fits);
+      headers['X-Optimize-Params'] = JSON.stringify(report.params);
+      headers['X-Optimize-Quality'] = JSON.stringify(report.quality);
+    }
+    if (report.warning) {
+      headers['X-Optimize-Warning'] = String(report.warning);
+    }
+    sendBinary(req, res, data, { contentType: 'image/gif', filename: 'reaction.gif', headers });
     
   } catch (error) {
     console.error('GIF optimization error:', error);
@@ -118,21 +115,32 @@ router.post('/optimize-gif', async (req: Request<{}, {}, OptimizeRequest>, res:
       details: error instanceof Error ? error.message : 'Unknown error' 
     });
   }
-});
+}
+
+router.post('/optimize-gif', (req: Request<{}, {}, OptimizeRequest>, res: Response) => handleOptimize(req, res, req.body));
+
+router.get('/optimize-gif', (req: Request, res: Response) =>
+  handleOptimize(req, res, {
+    gifUrl: req.query.url as string | undefined,
+    mediaId: req.query.id as string | undefined,
+    preset: req.query.preset as string | undefined,
+    maxBytes: req.query.maxBytes as string | undefined
+  })
+);
 
 // Keep the original endpoint for backward compatibility
 router.post('/optimize-gif-original', async (req: Request<{}, {}, OptimizeRequest>, res: Response): Promise<Response | void> => {
   try {
-    const { gifUrl } = req.body;
+    const gifUrl = req.body.mediaId || req.body.gifUrl;
     
     if (!gifUrl) {
-      return res.status(400).json({ error: 'GIF URL is required' });
+      return res.status(400).json({ error: 'GIF URL or media ID is required' });
     }
     
     console.log('Optimizing GIF (original format):', gifUrl);
     
     // Download the GIF
-    const gifBuffer = await downloadFile(gifUrl);
+    const gifBuffer = await loadGif(gifUrl);
     console.log('Downloaded GIF, size:', gifBuffer.length);
     
     // Verify it's actually a GIF
@@ -209,21 +217,23 @@ router.post('/optimize-gif-original', async (req: Request<{}, {}, OptimizeReques
 // Direct download endpoint for regular GIFs
 router.get('/download-gif', async (req: Request, res: Response): Promise<Response | void> => {
   try {
-    const { url } = req.query;
+    const url = req.query.id || req.query.url;
     
     if (!url || typeof url !== 'string') {
-      return res.status(400).json({ error: 'URL parameter is required' });
+      return res.status(400).json({ error: 'URL or id parameter is required' });
     }
     
     console.log('Direct download GIF:', url);
     
-    const gifBuffer = await downloadFile(url);
-    
-    res.setHeader('Content-Type', 'image/gif');
-    res.setHeader('Content-Disposition', 'attachment; filename="reaction.gif"');
-    res.setHeader('Content-Length', gifBuffer.length);
+    const gifBuffer = await loadGif(url);
+    // Still image swap results are PNG or JPEG and keep their own type
+    const { format } = await sharp(gifBuffer).metadata();
+    const still = format === 'png' || format === 'jpeg';
     
-    res.send(gifBuffer);
+    sendBinary(req, res, gifBuffer, {
+      contentType: still ? `image/${format}` : 'image/gif',
+      filename: `reaction.${format === 'jpeg' ? 'jpg' : still ? 'png' : 'gif'}`
+    });
     
   } catch (error) {
     console.error('GIF download error:', error);
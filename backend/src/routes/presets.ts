@@ -0,0 +1,14 @@
+import { Router, Request, Response } from 'express';
+import { DEFAULT_PRESET, PLATFORM_PRESETS } from '../services/presets.js';
+
+const router = Router();
+
+// Destinations the optimize, export and sticker routes accept as "preset"
+router.get('/presets', (req: Request, res: Response) => {
+  res.json({
+    defaultPreset: DEFAULT_PRESET,
+    presets: PLATFORM_PRESETS
+  });
+});
+
+export default router;
@@ -0,0 +1,40 @@
+import { Router, Request, Response } from 'express';
+import { getGifSearchProvider } from '../services/gif-search/index.js';
+
+const router = Router();
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+const MAX_QUERY_LENGTH = 100;
+
+// Search the configured GIF provider; results use the same Media shape as the gallery
+router.get('/search/gifs', async (req: Request, res: Response) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q || q.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({ error: `Search text (q) is required and at most ${MAX_QUERY_LENGTH} characters` });
+    }
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_SEARCH_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return res.status(400).json({ error: `Limit must be a whole number from 1 to ${MAX_SEARCH_LIMIT}` });
+    }
+    const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined;
+
+    const provider = getGifSearchProvider();
+    if (!provider.isConfigured()) {
+      console.error(`GIF search provider "${provider.name}" is not configured`);
+      return res.status(500).json({ error: 'API configuration error' });
+    }
+
+    const page = await provider.search({ q, limit, cursor });
+    res.json({ provider: provider.name, query: q, ...page });
+  } catch (error) {
+    console.error('GIF search error:', error);
+    res.status(500).json({
+      error: 'GIF search failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,195 @@
+import { Router, Request, Response } from 'express';
+import { loadGif } from '../services/media.js';
+import {
+  addPackSticker,
+  createPack,
+  exportPack,
+  getPack,
+  MAX_PACK_STICKERS,
+  MIN_PACK_STICKERS,
+  mismatchedStickers,
+  PACK_EXPORT_FORMATS,
+  removePackSticker,
+  type PackExportFormat,
+  type StickerPack
+} from '../services/sticker-packs/index.js';
+
+// Mounted at /api/stickers/packs
+const router = Router();
+
+interface StickerSource {
+  gifUrl?: string;
+  mediaId?: string;
+  emojis?: string[];
+}
+
+interface CreatePackRequest {
+  name?: string;
+  publisher?: string;
+  // Data URL, GIF URL or media ID for the tray icon
+  trayImage?: string;
+  stickers?: StickerSource[];
+}
+
+const toEmojis = (emojis: unknown): string[] =>
+  Array.isArray(emojis) ? emojis.filter(emoji => typeof emoji === 'string') : [];
+
+async function loadImage(reference: string): Promise<Buffer> {
+  return reference.startsWith('data:')
+    ? Buffer.from(reference.substring(reference.indexOf(',') + 1), 'base64')
+    : loadGif(reference);
+}
+
+// Stickers are converted one at a time so a large pack doesn't run many encoders at once
+async function addStickers(pack: StickerPack, sources: StickerSource[]) {
+  const failures: { source: string; error: string }[] = [];
+  for (const { gifUrl, mediaId, emojis } of sources) {
+    const source = mediaId || gifUrl;
+    if (!source) continue;
+    try {
+      await addPackSticker(pack, source, toEmojis(emojis));
+    } catch (error) {
+      console.error(`Failed to add ${source} to sticker pack ${pack.id}:`, error);
+      failures.push({ source, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+  return failures;
+}
+
+// Create a pack, optionally filling it with stickers straight away
+router.post('/', async (req: Request<{}, {}, CreatePackRequest>, res: Response) => {
+  try {
+    const { name, publisher, trayImage, stickers = [] } = req.body;
+
+    if (!name || !publisher) {
+      return res.status(400).json({ error: 'Pack name and publisher are required' });
+    }
+    if (stickers.length > MAX_PACK_STICKERS) {
+      return res.status(400).json({ error: `A sticker pack holds at most ${MAX_PACK_STICKERS} stickers` });
+    }
+
+    const pack = await createPack(name, publisher, trayImage ? await loadImage(trayImage) : null);
+    console.log('Created sticker pack:', pack.id, name);
+    const failures = await addStickers(pack, stickers);
+
+    res.json({ success: true, pack, failures });
+  } catch (error) {
+    console.error('Sticker pack creation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create sticker pack', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const pack = await getPack(req.params.id);
+    if (!pack) {
+      return res.status(404).json({ error: 'Sticker pack not found' });
+    }
+    res.json(pack);
+  } catch (error) {
+    console.error('Sticker pack lookup error:', error);
+    res.status(500).json({ 
+      error: 'Failed to load sticker pack', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+router.post('/:id/stickers', async (req: Request, res: Response) => {
+  try {
+    const pack = await getPack(req.params.id);
+    if (!pack) {
+      return res.status(404).json({ error: 'Sticker pack not found' });
+    }
+    const source = req.body.mediaId || req.body.gifUrl;
+    if (!source) {
+      return res.status(400).json({ error: 'GIF URL or media ID is required' });
+    }
+    if (pack.stickers.length >= MAX_PACK_STICKERS) {
+      return res.status(409).json({ error: `A sticker pack holds at most ${MAX_PACK_STICKERS} stickers` });
+    }
+
+    const sticker = await addPackSticker(pack, source, toEmojis(req.body.emojis));
+    res.json({ success: true, sticker, pack });
+  } catch (error) {
+    console.error('Add sticker error:', error);
+    res.status(500).json({ 
+      error: 'Failed to add sticker', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+router.delete('/:id/stickers/:stickerId', async (req: Request, res: Response) => {
+  try {
+    const pack = await getPack(req.params.id);
+    if (!pack) {
+      return res.status(404).json({ error: 'Sticker pack not found' });
+    }
+    if (!await removePackSticker(pack, req.params.stickerId)) {
+      return res.status(404).json({ error: 'Sticker not found in pack' });
+    }
+    res.json({ success: true, pack });
+  } catch (error) {
+    console.error('Remove sticker error:', error);
+    res.status(500).json({ 
+      error: 'Failed to remove sticker', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Telegram bot usernames: 5 to 32 letters, digits and underscores, ending in "bot"
+const TELEGRAM_BOT_PATTERN = /^[a-z][a-z0-9_]{1,28}bot$/i;
+
+// Download the pack as a .wastickers file (default) or a Telegram set bundle for the bot named in `bot`
+router.get('/:id/export', async (req: Request, res: Response) => {
+  try {
+    const format = (req.query.format || 'wastickers') as PackExportFormat;
+    if (!PACK_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Format must be one of: ${PACK_EXPORT_FORMATS.join(', ')}` });
+    }
+    const telegramBot = typeof req.query.bot === 'string' ? req.query.bot.replace(/^@/, '') : undefined;
+    if (format === 'telegram' && (!telegramBot || !TELEGRAM_BOT_PATTERN.test(telegramBot))) {
+      return res.status(400).json({ error: 'Telegram exports need bot, the username of the bot that will create the set (e.g. gifswap_bot)' });
+    }
+
+    const pack = await getPack(req.params.id);
+    if (!pack) {
+      return res.status(404).json({ error: 'Sticker pack not found' });
+    }
+    if (pack.stickers.length === 0) {
+      return res.status(400).json({ error: 'Sticker pack is empty' });
+    }
+    if (format === 'wastickers' && pack.stickers.length < MIN_PACK_STICKERS) {
+      return res.status(400).json({ error: `WhatsApp sticker packs need at least ${MIN_PACK_STICKERS} stickers` });
+    }
+    const mismatched = format === 'wastickers' ? mismatchedStickers(pack) : [];
+    if (mismatched.length > 0) {
+      const kind = mismatched[0].animated ? 'animated' : 'static';
+      return res.status(400).json({
+        error: `WhatsApp sticker packs must be all animated or all static, but ${mismatched.length} of the ${pack.stickers.length} stickers are ${kind}`,
+        stickers: mismatched.map(({ id, source, animated }) => ({ id, source, animated }))
+      });
+    }
+
+    const exported = await exportPack(pack, format, { telegramBot });
+    console.log(`Exported sticker pack ${pack.id} as ${format}, size:`, exported.data.length);
+
+    res.setHeader('Content-Type', exported.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${exported.fileName}"`);
+    res.setHeader('Content-Length', exported.data.length.toString());
+    res.send(exported.data);
+  } catch (error) {
+    console.error('Sticker pack export error:', error);
+    res.status(500).json({ 
+      error: 'Failed to export sticker pack', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,250 @@
+import { Router, Request, Response } from 'express';
+import { loadGif } from '../services/media.js';
+import {
+  createSticker,
+  fixSticker,
+  getStickerProfile,
+  isWebP,
+  STICKER_EXTENSIONS,
+  STICKER_PLATFORMS,
+  STICKER_PROFILES,
+  stickerPackId,
+  type CreateStickerOptions,
+  type StickerFormat,
+  type StickerMetadata,
+  validateSticker
+} from '../services/stickers/index.js';
+import { getPreset } from '../services/presets.js';
+
+// Mounted at /api/stickers
+const router = Router();
+
+interface StickerRequest {
+  gifUrl?: string;
+  mediaId?: string;
+  // Target app: "whatsapp" (default), "telegram", "telegram-video" or "signal"
+  platform?: string;
+  // Platform preset from GET /api/presets, used when no platform is given
+  preset?: string;
+  // Output format, for platforms that accept more than one
+  format?: string;
+  packName?: string;
+  author?: string;
+  // Emojis WhatsApp uses to suggest the sticker
+  emojis?: string[];
+  // Only try this strategy, mostly useful for debugging a converter
+  strategy?: string;
+}
+
+const DEFAULT_PACK_NAME = 'Face Swap Reactions';
+const DEFAULT_AUTHOR = 'Face Swap App';
+
+function stickerMetadata(packName: string, author: string, emojis: unknown): StickerMetadata {
+  return {
+    packId: stickerPackId(packName, author),
+    packName,
+    publisher: author,
+    emojis: Array.isArray(emojis) ? emojis.filter(emoji => typeof emoji === 'string') : []
+  };
+}
+
+// Turn the platform (or preset), format and strategy fields of a request into createSticker options, or an error message
+function resolveTarget(platform: unknown, format: unknown, strategy: unknown, presetId?: unknown): CreateStickerOptions | string {
+  if (!platform && typeof presetId === 'string') {
+    const preset = getPreset(presetId);
+    if (!preset?.sticker) {
+      return preset ? `${preset.name} has no sticker format` : `Unknown preset "${presetId}"`;
+    }
+    platform = preset.sticker;
+  }
+
+  const profile = getStickerProfile(typeof platform === 'string' ? platform : undefined);
+  if (!profile) {
+    return `Platform must be one of: ${STICKER_PLATFORMS.join(', ')}`;
+  }
+
+  const targetFormat = (typeof format === 'string' ? format : profile.formats[0]) as StickerFormat;
+  if (!profile.formats.includes(targetFormat)) {
+    return `${profile.platform} stickers can be: ${profile.formats.join(', ')}`;
+  }
+
+  if (!strategy) {
+    return { profile, format: targetFormat };
+  }
+  const match = profile.strategies[targetFormat].find(s => s.name === strategy);
+  return match ? { profile, format: targetFormat, strategies: [match] } : `Unknown sticker strategy "${strategy}"`;
+}
+
+// Create a sticker for the requested platform, returned as a data URL
+router.post('/create', async (req: Request<{}, {}, StickerRequest>, res: Response) => {
+  try {
+    const { packName = DEFAULT_PACK_NAME, author = DEFAULT_AUTHOR, emojis } = req.body;
+    const gifUrl = req.body.mediaId || req.body.gifUrl;
+
+    if (!gifUrl) {
+      return res.status(400).json({ error: 'GIF URL or media ID is required' });
+    }
+    const target = resolveTarget(req.body.platform, req.body.format, req.body.strategy, req.body.preset);
+    if (typeof target === 'string') {
+      return res.status(400).json({ error: target });
+    }
+
+    console.log(`Creating ${target.profile.platform} sticker from:`, gifUrl);
+    const gifBuffer = await loadGif(gifUrl);
+    const metadata = stickerMetadata(packName, author, emojis);
+    const sticker = await createSticker(gifBuffer, { ...target, metadata });
+    const { width, height } = sticker.validation.inspection;
+
+    res.json({
+      success: true,
+      sticker: `data:${sticker.contentType};base64,${sticker.data.toString('base64')}`,
+      originalSize: gifBuffer.length,
+      stickerSize: sticker.data.length,
+      platform: sticker.platform,
+      format: sticker.format,
+      type: sticker.animated ? 'animated_sticker' : 'static_sticker',
+      animated: sticker.animated,
+      strategy: sticker.strategy,
+      fixes: sticker.step,
+      validation: sticker.validation,
+      attempts: sticker.attempts,
+      metadata: {
+        packId: metadata.packId,
+        packName,
+        author,
+        emojis: metadata.emojis,
+        dimensions: `${width}x${height}`
+      }
+    });
+  } catch (error) {
+    console.error('Sticker creation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create sticker', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+interface ValidateRequest {
+  // Sticker as a data URL
+  sticker?: string;
+  url?: string;
+  platform?: string;
+  preset?: string;
+  format?: string;
+  // Also return a compliant version when the sticker breaks any rule
+  fix?: boolean;
+}
+
+// Check a sticker against a platform's requirements (WhatsApp by default), optionally repairing it
+router.post('/validate', async (req: Request<{}, {}, ValidateRequest>, res: Response) => {
+  try {
+    const { sticker, url, fix = false } = req.body;
+
+    if (!sticker && !url) {
+      return res.status(400).json({ error: 'Sticker data URL or URL is required' });
+    }
+    const target = resolveTarget(req.body.platform, req.body.format, null, req.body.preset);
+    if (typeof target === 'string') {
+      return res.status(400).json({ error: target });
+    }
+
+    const data = sticker
+      ? Buffer.from(sticker.substring(sticker.indexOf(',') + 1), 'base64')
+      : await loadGif(url);
+    const validation = await validateSticker(data, target.profile);
+    console.log('Sticker validation:', validation.valid ? 'valid' : validation.violations);
+
+    if (validation.valid || !fix) {
+      return res.json({ success: true, ...validation });
+    }
+
+    // Other input (e.g. a GIF, or a sticker for another platform) goes through the full conversion chain
+    const fixed = target.profile.platform === 'whatsapp' && isWebP(data)
+      ? await fixSticker(data)
+      : await createSticker(data, target);
+    res.json({
+      success: true,
+      ...validation,
+      fixed: {
+        sticker: `data:${fixed.contentType};base64,${fixed.data.toString('base64')}`,
+        stickerSize: fixed.data.length,
+        strategy: fixed.strategy,
+        fixes: fixed.step,
+        validation: fixed.validation
+      }
+    });
+  } catch (error) {
+    console.error('Sticker validation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to validate sticker', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Direct download of a sticker for the requested platform
+router.get('/download', async (req: Request, res: Response) => {
+  try {
+    const url = req.query.id || req.query.url;
+
+    if (!url || typeof url !== 'string') {
+      return res.status(400).json({ error: 'URL or id parameter is required' });
+    }
+    const target = resolveTarget(req.query.platform, req.query.format, req.query.strategy, req.query.preset);
+    if (typeof target === 'string') {
+      return res.status(400).json({ error: target });
+    }
+
+    console.log(`Direct download ${target.profile.platform} sticker:`, url);
+    const { packName, author, emoji } = req.query;
+    const metadata = stickerMetadata(
+      typeof packName === 'string' ? packName : DEFAULT_PACK_NAME,
+      typeof author === 'string' ? author : DEFAULT_AUTHOR,
+      typeof emoji === 'string' ? [emoji] : emoji
+    );
+    const sticker = await createSticker(await loadGif(url), { ...target, metadata });
+
+    res.setHeader('Content-Type', sticker.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${sticker.platform}-sticker.${STICKER_EXTENSIONS[sticker.format]}"`);
+    res.setHeader('Content-Length', sticker.data.length.toString());
+    res.setHeader('X-Sticker-Strategy', sticker.strategy);
+    res.send(sticker.data);
+  } catch (error) {
+    console.error('Sticker download error:', error);
+    res.status(500).json({ 
+      error: 'Failed to download sticker', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Requirements of each supported platform and the conversion strategies in the order they are tried
+router.get('/info', (req: Request, res: Response) => {
+  res.json({
+    defaultPlatform: 'whatsapp',
+    platforms: STICKER_PLATFORMS.map(platform => {
+      const { limits, formats, strategies } = STICKER_PROFILES[platform];
+      return {
+        platform,
+        formats,
+        dimensions: limits.square ? `${limits.size}x${limits.size}` : `longer side ${limits.size}px`,
+        animated: limits.maxAnimatedBytes > 0,
+        maxAnimatedSize: limits.maxAnimatedBytes > 0 ? `${limits.maxAnimatedBytes / 1024}KB` : null,
+        maxStaticSize: `${limits.maxStaticBytes / 1024}KB`,
+        maxDuration: limits.maxAnimatedBytes > 0 ? `${limits.maxDurationMs / 1000}s` : null,
+        maxFrameRate: limits.maxAnimatedBytes > 0 ? `${limits.maxFrameRate}fps` : null,
+        strategies: Object.fromEntries(
+          Object.entries(strategies).map(([format, chain]) => [format, chain.map(({ name, animated }) => ({ name, animated }))])
+        )
+      };
+    }),
+    usage: [
+      'Pick a platform with the "platform" field on /create, /download or /validate, or a "preset" from /api/presets',
+      'WhatsApp stickers carry pack name, publisher and emojis in the file',
+      'Telegram video stickers are WebM; upload them through @Stickers or the Bot API'
+    ]
+  });
+});
+
+export default router;
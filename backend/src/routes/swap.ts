@@ -1,29 +1,48 @@
 import { Router, Request, Response } from 'express';
-import Replicate from 'replicate';
 import fs from 'fs/promises';
 import { join } from 'path';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
-import dotenv from 'dotenv';
-
-// Ensure environment variables are loaded
-dotenv.config();
+import { UPLOADS_DIR } from '../config.js';
+import { getSwapProvider, type SwapJobInput, type SwapTargetType } from '../services/swap-providers/index.js';
+import {
+  cancelSwapBatch,
+  cancelSwapJob,
+  createSwapBatch,
+  createSwapJob,
+  findJobByPredictionId,
+  getBatchJobs,
+  getJob,
+  isTerminal,
+  isWatched,
+  refreshJob,
+  retrySwapJob,
+  subscribeToBatch,
+  subscribeToJob,
+  summarizeBatch,
+  type SwapJob
+} from '../services/jobs/index.js';
 
 const router = Router();
-const __dirname = dirname(fileURLToPath(import.meta.url));
-
-const replicate = new Replicate({
-  auth: process.env.REPLICATE_API_TOKEN,
-});
 
-// Test replicate client
-console.log('Replicate client auth property:', (replicate as any).auth);
+type SwapRequest = SwapJobInput;
 
-interface SwapRequest {
-  sourceImageData: string;
-  targetGifUrl: string;
+interface BatchSwapRequest {
+  sourceImageData?: string;
+  // Per-target faces keyed by target URL; targets without an entry fall back to sourceImageData
+  faces?: Record<string, string>;
+  targetGifUrls: string[];
+  // Per-target "gif" or "image", keyed by target URL; guessed from the URL when missing
+  targetTypes?: Record<string, SwapTargetType>;
 }
 
+const MAX_BATCH_SIZE = 10;
+
+// Comment lines keep idle event streams from being closed by proxies
+const SSE_HEARTBEAT_MS = 15000;
+// Tells EventSource how long to wait before reconnecting after a dropped stream
+const SSE_RETRY_MS = 3000;
+
+const TARGET_TYPES: SwapTargetType[] = ['gif', 'image'];
+
 // URL validation helper
 const isValidUrl = (url: string): boolean => {
   try {
@@ -37,7 +56,7 @@ const isValidUrl = (url: string): boolean => {
 // Async swap endpoint - returns prediction ID immediately
 router.post('/swap', async (req: Request<{}, {}, SwapRequest>, res: Response) => {
   try {
-    const { sourceImageData, targetGifUrl } = req.body;
+    const { sourceImageData, targetGifUrl, targetType } = req.body;
 
     // Validate required fields
     if (!sourceImageData || !targetGifUrl) {
@@ -56,21 +75,25 @@ router.post('/swap', async (req: Request<{}, {}, SwapRequest>, res: Response) =>
       return res.status(400).json({ error: 'Invalid target GIF URL' });
     }
 
-    // Validate API token
-    if (!process.env.REPLICATE_API_TOKEN) {
-      console.error('REPLICATE_API_TOKEN not configured');
+    if (targetType !== undefined && !TARGET_TYPES.includes(targetType)) {
+      return res.status(400).json({ error: `targetType must be one of: ${TARGET_TYPES.join(', ')}` });
+    }
+
+    const provider = getSwapProvider();
+
+    // Validate provider credentials
+    if (!provider.isConfigured()) {
+      console.error(`Swap provider "${provider.name}" is not configured`);
       return res.status(500).json({ error: 'API configuration error' });
     }
 
     console.log('=== FACE SWAP DEBUG START ===');
     console.log('Starting face swap with base64 source and target GIF:', { 
+      provider: provider.name,
       sourceImageDataLength: sourceImageData.length, 
-      targetGifUrl 
+      targetGifUrl,
+      targetType
     });
-    console.log('API Token present:', !!process.env.REPLICATE_API_TOKEN);
-    console.log('API Token length:', process.env.REPLICATE_API_TOKEN?.length);
-    console.log('API Token preview:', process.env.REPLICATE_API_TOKEN?.substring(0, 8) + '...');
-    console.log('API Token full (for debugging):', process.env.REPLICATE_API_TOKEN);
 
     console.log('Testing target URL accessibility...');
     try {
@@ -82,26 +105,24 @@ router.post('/swap', async (req: Request<{}, {}, SwapRequest>, res: Response) =>
 
     // Create prediction with timing
     const startTime = Date.now();
-    console.log('Creating Replicate prediction at:', new Date().toISOString());
+    console.log('Creating prediction at:', new Date().toISOString());
     
-    const prediction = await replicate.predictions.create({
-      model: "zetyquickly-org/faceswap-a-gif",
-      version: "974be35318aab27d78c8c935761e665620236d3b157a9b35385c7905c601d977",
-      input: {
-        source: sourceImageData,
-        target: targetGifUrl
-      }
-    });
+    const job = await createSwapJob({ sourceImageData, targetGifUrl, targetType });
 
     const createTime = Date.now() - startTime;
     console.log('Prediction created in', createTime, 'ms');
-    console.log('Prediction details:', JSON.stringify(prediction, null, 2));
+    console.log('Job details:', JSON.stringify(job, null, 2));
 
-    // Return prediction ID immediately for async processing
+    // Return prediction ID immediately for async processing; cache hits have no prediction, so the
+    // job ID stands in for it and the status endpoint answers straight from the store
     res.json({
       success: true,
-      predictionId: prediction.id,
-      status: prediction.status
+      jobId: job.id,
+      predictionId: job.predictionId ?? job.id,
+      status: job.status,
+      targetType: job.targetType,
+      output: job.cacheHit ? job.output : undefined,
+      cache: { hit: job.cacheHit, key: job.cacheKey }
     });
   } catch (error) {
     console.error('Face swap error:', error);
@@ -137,6 +158,288 @@ router.post('/swap', async (req: Request<{}, {}, SwapRequest>, res: Response) =>
   }
 });
 
+// Batch swap endpoint - records one job per target and runs them server-side
+router.post('/swap/batch', async (req: Request<{}, {}, BatchSwapRequest>, res: Response) => {
+  try {
+    const { sourceImageData, faces = {}, targetGifUrls, targetTypes = {} } = req.body;
+
+    if (!Array.isArray(targetGifUrls) || targetGifUrls.length === 0) {
+      return res.status(400).json({ error: 'targetGifUrls must be a non-empty array' });
+    }
+
+    if (targetGifUrls.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({ error: `A batch can contain at most ${MAX_BATCH_SIZE} targets` });
+    }
+
+    const invalidUrl = targetGifUrls.find(url => typeof url !== 'string' || !isValidUrl(url));
+    if (invalidUrl !== undefined) {
+      console.error('Invalid target GIF URL in batch:', invalidUrl);
+      return res.status(400).json({ error: 'Invalid target GIF URL', details: String(invalidUrl) });
+    }
+
+    const targets: SwapJobInput[] = [];
+    for (const targetGifUrl of targetGifUrls) {
+      const faceData = faces[targetGifUrl] || sourceImageData;
+      if (!faceData) {
+        return res.status(400).json({ error: 'Missing source image for target', details: targetGifUrl });
+      }
+      if (!faceData.startsWith('data:image/')) {
+        return res.status(400).json({ error: 'Invalid source image data format', details: targetGifUrl });
+      }
+      const targetType = targetTypes[targetGifUrl];
+      if (targetType !== undefined && !TARGET_TYPES.includes(targetType)) {
+        return res.status(400).json({ error: `targetType must be one of: ${TARGET_TYPES.join(', ')}`, details: targetGifUrl });
+      }
+      targets.push({ sourceImageData: faceData, targetGifUrl, targetType });
+    }
+
+    const provider = getSwapProvider();
+    if (!provider.isConfigured()) {
+      console.error(`Swap provider "${provider.name}" is not configured`);
+      return res.status(500).json({ error: 'API configuration error' });
+    }
+
+    const { batchId, jobs } = await createSwapBatch(targets);
+    console.log('Created batch', batchId, 'with', jobs.length, 'jobs');
+
+    res.json({
+      success: true,
+      batchId,
+      jobIds: jobs.map(job => job.id)
+    });
+  } catch (error) {
+    console.error('Batch swap error:', error);
+    res.status(500).json({ 
+      error: 'Batch swap failed', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Aggregate progress for a batch; jobs are listed in the order their targets were submitted
+router.get('/swap/batch/:batchId', async (req: Request, res: Response) => {
+  try {
+    const jobs = await getBatchJobs(req.params.batchId);
+
+    if (jobs.length === 0) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    res.json(summarizeBatch(req.params.batchId, jobs));
+  } catch (error) {
+    console.error('Batch status error:', error);
+    res.status(500).json({ 
+      error: 'Batch status check failed', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Cancel a single job by job ID or provider prediction ID
+router.post('/swap/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const job = await getJob(req.params.id) || await findJobByPredictionId(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const canceled = await cancelSwapJob(job);
+    console.log('Cancel requested for job', canceled.id, '- now', canceled.status);
+
+    res.json({
+      success: canceled.status === 'canceled',
+      jobId: canceled.id,
+      predictionId: canceled.predictionId,
+      status: canceled.status
+    });
+  } catch (error) {
+    console.error('Cancel error:', error);
+    res.status(500).json({ 
+      error: 'Cancel failed', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Resubmit a failed or canceled job using the inputs stored with it
+router.post('/swap/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const job = await getJob(req.params.id) || await findJobByPredictionId(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.status !== 'failed' && job.status !== 'canceled') {
+      return res.status(409).json({ error: 'Only failed or canceled jobs can be retried', status: job.status });
+    }
+
+    const retried = await retrySwapJob(job);
+    console.log('Retry requested for job', retried.id);
+
+    res.json({
+      success: true,
+      jobId: retried.id,
+      batchId: retried.batchId,
+      status: retried.status
+    });
+  } catch (error) {
+    console.error('Retry error:', error);
+    res.status(500).json({ 
+      error: 'Retry failed', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Cancel every unfinished job in a batch
+router.post('/swap/batch/:batchId/cancel', async (req: Request, res: Response) => {
+  try {
+    const jobs = await cancelSwapBatch(req.params.batchId);
+
+    if (jobs.length === 0) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    res.json({ success: true, ...summarizeBatch(req.params.batchId, jobs) });
+  } catch (error) {
+    console.error('Batch cancel error:', error);
+    res.status(500).json({ 
+      error: 'Batch cancel failed', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Server-Sent Events helpers
+function openEventStream(res: Response, onClose: () => void) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    onClose();
+  });
+
+  return (event: string, data: unknown) => {
+    if (res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+}
+
+function jobEventPayload(job: SwapJob) {
+  return {
+    id: job.id,
+    predictionId: job.predictionId,
+    status: job.status,
+    targetType: job.targetType ?? 'gif',
+    progress: job.progress ?? 0,
+    output: job.output,
+    error: job.error
+  };
+}
+
+// Stream status, progress and new log lines for a single job
+router.get('/swap/events/:jobId', async (req: Request, res: Response) => {
+  try {
+    const job = await getJob(req.params.jobId) || await findJobByPredictionId(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    let sentLogLength = 0;
+    let unsubscribe = () => {};
+    const send = openEventStream(res, () => unsubscribe());
+
+    const push = (current: SwapJob) => {
+      // Only send log lines the client hasn't seen yet on this connection
+      const logs = current.logs || '';
+      if (logs.length < sentLogLength) {
+        sentLogLength = 0;
+      }
+      if (logs.length > sentLogLength) {
+        logs.substring(sentLogLength).split('\n').filter(line => line.trim() !== '')
+          .forEach(line => send('log', { line }));
+        sentLogLength = logs.length;
+      }
+      send('job', jobEventPayload(current));
+
+      if (isTerminal(current.status)) {
+        send('done', jobEventPayload(current));
+        unsubscribe();
+        res.end();
+      }
+    };
+
+    unsubscribe = subscribeToJob(job.id, push);
+    push(job);
+  } catch (error) {
+    console.error('Job event stream error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ 
+        error: 'Failed to open event stream', 
+        details: error instanceof Error ? error.message : 'Unknown error' 
+      });
+    }
+  }
+});
+
+// Stream aggregate progress for a batch
+router.get('/swap/batch/:batchId/events', async (req: Request, res: Response) => {
+  try {
+    const { batchId } = req.params;
+    const initialJobs = await getBatchJobs(batchId);
+
+    if (initialJobs.length === 0) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    let unsubscribe = () => {};
+    const send = openEventStream(res, () => unsubscribe());
+
+    const push = (jobs: SwapJob[]) => {
+      const summary = summarizeBatch(batchId, jobs);
+      send('batch', summary);
+
+      if (summary.status === 'completed') {
+        send('done', summary);
+        unsubscribe();
+        res.end();
+      }
+    };
+
+    // The emitter ignores a listener's promise, so a failed lookup has to be caught here
+    unsubscribe = subscribeToBatch(batchId, () => {
+      getBatchJobs(batchId).then(push).catch(error => {
+        console.error(`Batch ${batchId} event stream failed:`, error);
+        unsubscribe();
+        res.end();
+      });
+    });
+    push(initialJobs);
+  } catch (error) {
+    console.error('Batch event stream error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ 
+        error: 'Failed to open event stream', 
+        details: error instanceof Error ? error.message : 'Unknown error' 
+      });
+    }
+  }
+});
+
+// Names multer gives uploaded files (`<timestamp>-<random>-<original name>`). Jobs, media and sticker
+// packs are stored under uploads/ too, so only files named like this, directly in uploads/, can be removed
+const UPLOAD_TEMP_FILE_PATTERN = /^\d+-\d+-[^/\\]+$/;
+
 router.post('/cleanup', async (req: Request, res: Response) => {
   try {
     const { filename } = req.body;
@@ -144,8 +447,11 @@ router.post('/cleanup', async (req: Request, res: Response) => {
     if (!filename) {
       return res.status(400).json({ error: 'Filename required' });
     }
+    if (typeof filename !== 'string' || !UPLOAD_TEMP_FILE_PATTERN.test(filename)) {
+      return res.status(400).json({ error: 'Only uploaded files can be cleaned up' });
+    }
 
-    const filePath = join(__dirname, '../../uploads', filename);
+    const filePath = join(UPLOADS_DIR, filename);
     
     try {
       await fs.unlink(filePath);
@@ -174,20 +480,35 @@ router.get('/swap/status/:predictionId', async (req: Request, res: Response) =>
     }
 
     const startTime = Date.now();
-    console.log('Fetching prediction status from Replicate...');
-    
-    const prediction = await replicate.predictions.get(predictionId);
+    const storedJob = await findJobByPredictionId(predictionId) || await getJob(predictionId);
+
+    // Predictions created before the job store existed are looked up on the provider directly
+    if (!storedJob) {
+      console.log('No stored job, fetching prediction status from provider...');
+      const prediction = await getSwapProvider().getStatus(predictionId);
+      return res.json({
+        id: prediction.id,
+        status: prediction.status,
+        output: prediction.output,
+        error: prediction.error
+      });
+    }
+
+    // The job runner keeps watched jobs current, so only unwatched ones need a provider round trip
+    const job = isWatched(storedJob.id) ? storedJob : await refreshJob(storedJob);
     
     const fetchTime = Date.now() - startTime;
     console.log('Status fetched in', fetchTime, 'ms');
-    console.log('Current prediction status:', prediction.status);
-    console.log('Prediction details:', JSON.stringify(prediction, null, 2));
+    console.log('Current job status:', job.status);
     
     const responseData = {
-      id: prediction.id,
-      status: prediction.status,
-      output: prediction.output,
-      error: prediction.error
+      id: job.predictionId ?? job.id,
+      jobId: job.id,
+      status: job.status,
+      targetType: job.targetType ?? 'gif',
+      output: job.output,
+      error: job.error,
+      cacheHit: job.cacheHit ?? false
     };
     
     console.log('Sending response:', responseData);
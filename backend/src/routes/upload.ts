@@ -1,18 +1,17 @@
 import { Router } from "express";
 import multer from "multer";
-import { join } from "path";
-import { fileURLToPath } from "url";
-import { dirname } from "path";
 import { readFile, unlink } from "fs/promises";
 import sharp from "sharp";
+import { PUBLIC_BASE_URL_CONFIGURED, TARGET_UPLOAD_MAX_BYTES, UPLOADS_DIR } from "../config.js";
+import { getSwapProvider } from "../services/swap-providers/index.js";
+import { getTargetFormat, prepareTarget } from "../services/targets/index.js";
+import { detectFaces, getFaceDetector } from "../services/faces/index.js";
 
 const router = Router();
-const __dirname = dirname(fileURLToPath(import.meta.url));
 
+// Given as a path, multer creates the directory if it doesn't exist yet
 const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, join(__dirname, "../../uploads"));
-  },
+  destination: UPLOADS_DIR,
   filename: (req, file, cb) => {
     const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
     cb(null, uniqueSuffix + "-" + file.originalname);
@@ -42,10 +41,12 @@ router.post("/upload", upload.single("image"), async (req, res) => {
     // Read the uploaded file
     const fileBuffer = await readFile(req.file.path);
     
-    // Convert image to JPEG format using sharp to ensure compatibility
-    const convertedBuffer = await sharp(fileBuffer)
+    // Convert image to JPEG format using sharp to ensure compatibility, turned upright so phone
+    // photos aren't sideways and faces can be found in them
+    const { data: convertedBuffer, info } = await sharp(fileBuffer)
+      .rotate()
       .jpeg({ quality: 90 })
-      .toBuffer();
+      .toBuffer({ resolveWithObject: true });
     
     // Create base64 data URL with JPEG format
     const base64Data = `data:image/jpeg;base64,${convertedBuffer.toString('base64')}`;
@@ -53,10 +54,22 @@ router.post("/upload", upload.single("image"), async (req, res) => {
     // Clean up the uploaded file since we have the base64 data
     await unlink(req.file.path);
 
+    // Each face comes with its own crop, so the client can let the user pick one from a group photo.
+    // An empty list from a heuristic detector is returned for the client to warn about instead.
+    const faces = await detectFaces(convertedBuffer);
+    if (faces && faces.length === 0 && getFaceDetector().conclusive) {
+      return res.status(400).json({
+        error: "No face found in this photo. Please upload a photo where your face is clearly visible and well lit",
+      });
+    }
+
     res.json({
       success: true,
       filename: req.file.filename,
       base64Data: base64Data,
+      width: info.width,
+      height: info.height,
+      faces,
     });
   } catch (error) {
     console.error('Error processing uploaded file:', error);
@@ -68,4 +81,80 @@ router.post("/upload", upload.single("image"), async (req, res) => {
   }
 });
 
+const targetUpload = multer({
+  storage,
+  limits: {
+    fileSize: TARGET_UPLOAD_MAX_BYTES,
+  },
+  fileFilter: (req, file, cb) => {
+    if (getTargetFormat(file.mimetype, file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only GIF, MP4, WebM and MOV files are allowed"));
+    }
+  },
+});
+
+// Upload a GIF or video clip to swap faces into. It is converted to a GIF within the target limits
+// and hosted under /media, and the returned URL can be used as targetGifUrl in /api/swap.
+router.post(
+  "/upload-target",
+  (req, res, next) => {
+    // A provider that downloads targets itself can't reach our default localhost address
+    if (getSwapProvider().fetchesTargets && !PUBLIC_BASE_URL_CONFIGURED) {
+      return res.status(503).json({
+        error: "Uploading targets needs PUBLIC_BASE_URL to be set, so the swap provider can download them",
+      });
+    }
+    targetUpload.single("target")(req, res, (error: unknown) => {
+      if (!error) return next();
+      const tooLarge = error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE";
+      res.status(400).json({
+        error: tooLarge
+          ? `Files must be at most ${Math.round(TARGET_UPLOAD_MAX_BYTES / (1024 * 1024))}MB`
+          : error instanceof Error ? error.message : "Upload failed",
+      });
+    });
+  },
+  async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    try {
+      const fileBuffer = await readFile(req.file.path);
+      await unlink(req.file.path);
+
+      const format = getTargetFormat(req.file.mimetype, req.file.originalname);
+      console.log(`Preparing uploaded ${format.type} target (${fileBuffer.length} bytes):`, req.file.originalname);
+      const target = await prepareTarget(fileBuffer, format);
+      if (typeof target === "string") {
+        return res.status(400).json({ error: target });
+      }
+
+      res.json({
+        success: true,
+        id: target.id,
+        url: target.url,
+        sourceType: target.sourceType,
+        converted: target.converted,
+        width: target.width,
+        height: target.height,
+        frames: target.frames,
+        durationMs: target.durationMs,
+        size: target.data.length,
+      });
+    } catch (error) {
+      console.error("Error processing uploaded target:", error);
+      if (req.file?.path) {
+        await unlink(req.file.path).catch(() => {});
+      }
+      res.status(500).json({
+        error: "Failed to process uploaded target",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,56 @@
+import { Router, Request, Response } from 'express';
+import express from 'express';
+import { getSwapProvider } from '../services/swap-providers/index.js';
+import { applyPrediction, findJobByPredictionId } from '../services/jobs/index.js';
+
+const router = Router();
+
+// Signatures are computed over the exact bytes sent, so this route needs the raw body
+router.post('/webhooks/provider', express.raw({ type: '*/*', limit: '5mb' }), async (req: Request, res: Response) => {
+  try {
+    const provider = getSwapProvider();
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+
+    let verified = false;
+    try {
+      verified = await provider.verifyWebhook(req.headers, rawBody);
+    } catch (error) {
+      console.error('Webhook verification error:', error);
+    }
+
+    if (!verified) {
+      console.error('Rejected webhook with invalid signature');
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return res.status(400).json({ error: 'Invalid webhook payload' });
+    }
+
+    const prediction = provider.parseWebhook(payload);
+    const job = prediction.id ? await findJobByPredictionId(prediction.id) : null;
+
+    // Acknowledge unknown predictions so the provider doesn't keep retrying them
+    if (!job) {
+      console.log('Webhook for unknown prediction:', prediction.id);
+      return res.json({ received: true, ignored: true });
+    }
+
+    // Updating the job notifies the job runner and any open event streams
+    const updated = await applyPrediction(job, prediction);
+    console.log('Webhook updated job', updated.id, 'to', updated.status);
+
+    res.json({ received: true, jobId: updated.id, status: updated.status });
+  } catch (error) {
+    console.error('Webhook handling error:', error);
+    res.status(500).json({ 
+      error: 'Webhook handling failed', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+export default router;
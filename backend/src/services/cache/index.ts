@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import { createJsonCollection } from '../json-collection.js';
+import { getBlobStore } from '../storage/index.js';
+
+export interface CacheEntry {
+  key: string;
+  sourceHash: string;
+  targetGifUrl: string;
+  modelVersion: string;
+  blobKey: string;
+  url: string;
+  size: number;
+  contentType: string;
+  createdAt: string;
+  hits: number;
+  lastHitAt: string | null;
+}
+
+export interface CachePurgeFilter {
+  key?: string;
+  sourceHash?: string;
+  targetGifUrl?: string;
+}
+
+const entries = createJsonCollection<CacheEntry>('cache.json', entry => entry.key);
+
+const EXTENSIONS: Record<string, string> = {
+  'image/gif': 'gif',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4'
+};
+
+// The same face in the same target through the same model always gives the same key
+export function resultCacheKey(sourceHash: string, targetGifUrl: string, modelVersion: string): string {
+  return createHash('sha256').update(`${sourceHash}\n${targetGifUrl}\n${modelVersion}`).digest('hex');
+}
+
+// Returns the cached output, dropping the entry if its blob has gone missing
+export async function lookupCachedResult(
+  sourceHash: string,
+  targetGifUrl: string,
+  modelVersion: string
+): Promise<{ entry: CacheEntry; data: Buffer } | null> {
+  const entry = await entries.get(resultCacheKey(sourceHash, targetGifUrl, modelVersion));
+  if (!entry) return null;
+
+  const data = await getBlobStore().get(entry.blobKey);
+  if (!data) {
+    await entries.delete(entry.key);
+    return null;
+  }
+
+  entry.hits++;
+  entry.lastHitAt = new Date().toISOString();
+  await entries.set(entry);
+  return { entry, data };
+}
+
+// Kept separately from the job's own media so purging the cache never breaks shared links
+export async function storeCachedResult(
+  sourceHash: string,
+  targetGifUrl: string,
+  modelVersion: string,
+  data: Buffer,
+  contentType = 'image/gif'
+): Promise<CacheEntry> {
+  const key = resultCacheKey(sourceHash, targetGifUrl, modelVersion);
+  const existing = await entries.get(key);
+  if (existing) return existing;
+
+  const blob = await getBlobStore().put(`cache/${key}.${EXTENSIONS[contentType] || 'gif'}`, data, contentType);
+
+  return entries.set({
+    key,
+    sourceHash,
+    targetGifUrl,
+    modelVersion,
+    blobKey: blob.key,
+    url: blob.url,
+    size: blob.size,
+    contentType,
+    createdAt: new Date().toISOString(),
+    hits: 0,
+    lastHitAt: null
+  });
+}
+
+// With no filter, everything is purged
+export async function purgeCache(filter: CachePurgeFilter = {}): Promise<number> {
+  const matching = (await entries.all()).filter(entry =>
+    (!filter.key || entry.key === filter.key) &&
+    (!filter.sourceHash || entry.sourceHash === filter.sourceHash) &&
+    (!filter.targetGifUrl || entry.targetGifUrl === filter.targetGifUrl)
+  );
+
+  for (const entry of matching) {
+    await getBlobStore().delete(entry.blobKey);
+    await entries.delete(entry.key);
+  }
+  return matching.length;
+}
+
+export async function getCacheStats(): Promise<{ entries: number; totalBytes: number; hits: number }> {
+  const all = await entries.all();
+  return {
+    entries: all.length,
+    totalBytes: all.reduce((sum, entry) => sum + entry.size, 0),
+    hits: all.reduce((sum, entry) => sum + entry.hits, 0)
+  };
+}
@@ -0,0 +1,84 @@
+import sharp from 'sharp';
+import { CAPTION_FONTS, captionSvg } from './layout.js';
+import type { Caption, CaptionFont, TextBox, TextStyle } from './types.js';
+
+export * from './types.js';
+export { captionSvg } from './layout.js';
+
+export const CAPTION_FONT_NAMES = Object.keys(CAPTION_FONTS) as CaptionFont[];
+export const MAX_TEXT_LENGTH = 200;
+export const MAX_TEXT_BOXES = 10;
+export const MIN_TEXT_SIZE = 8;
+export const MAX_TEXT_SIZE = 400;
+export const MAX_STROKE_WIDTH = 40;
+
+const HEX_COLOUR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const ALIGNS = ['left', 'center', 'right'];
+
+const isFraction = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+function validateText(text: unknown, label: string): string | null {
+  if (text === undefined) return null;
+  if (typeof text !== 'string') return `${label} must be a string`;
+  return text.length > MAX_TEXT_LENGTH ? `${label} must be at most ${MAX_TEXT_LENGTH} characters` : null;
+}
+
+function validateStyle(style: TextStyle, label: string): string | null {
+  if (style.font !== undefined && !CAPTION_FONT_NAMES.includes(style.font)) {
+    return `${label} font must be one of: ${CAPTION_FONT_NAMES.join(', ')}`;
+  }
+  if (style.size !== undefined && (typeof style.size !== 'number' || style.size < MIN_TEXT_SIZE || style.size > MAX_TEXT_SIZE)) {
+    return `${label} size must be from ${MIN_TEXT_SIZE} to ${MAX_TEXT_SIZE}`;
+  }
+  for (const key of ['colour', 'strokeColour'] as const) {
+    if (style[key] !== undefined && (typeof style[key] !== 'string' || !HEX_COLOUR.test(style[key]))) {
+      return `${label} ${key} must be a hex colour like #ffffff`;
+    }
+  }
+  if (
+    style.strokeWidth !== undefined &&
+    (typeof style.strokeWidth !== 'number' || style.strokeWidth < 0 || style.strokeWidth > MAX_STROKE_WIDTH)
+  ) {
+    return `${label} strokeWidth must be from 0 to ${MAX_STROKE_WIDTH}`;
+  }
+  if (style.uppercase !== undefined && typeof style.uppercase !== 'boolean') {
+    return `${label} uppercase must be true or false`;
+  }
+  return null;
+}
+
+function validateBox(box: TextBox, label: string): string | null {
+  if (!box || typeof box !== 'object') return `${label} must be an object`;
+  if (typeof box.text !== 'string') return `${label} text is required`;
+  if (!isFraction(box.x) || !isFraction(box.y)) return `${label} x and y must be from 0 to 1`;
+  if (box.width !== undefined && (!isFraction(box.width) || box.width === 0)) return `${label} width must be above 0 and at most 1`;
+  if (box.align !== undefined && !ALIGNS.includes(box.align)) return `${label} align must be one of: ${ALIGNS.join(', ')}`;
+  return validateText(box.text, `${label} text`) ?? validateStyle(box, label);
+}
+
+// Returns a message describing the first problem, or null when the caption can be drawn
+export function validateCaption(caption: Caption): string | null {
+  if (!caption || typeof caption !== 'object') return 'caption must be an object';
+  const error = validateText(caption.top, 'top') ?? validateText(caption.bottom, 'bottom');
+  if (error) return error;
+
+  const boxes = caption.boxes ?? [];
+  if (!Array.isArray(boxes)) return 'boxes must be an array';
+  if (boxes.length > MAX_TEXT_BOXES) return `At most ${MAX_TEXT_BOXES} text boxes are allowed`;
+  for (const [index, box] of boxes.entries()) {
+    const boxError = validateBox(box, `box ${index + 1}`);
+    if (boxError) return boxError;
+  }
+  if (caption.style !== undefined) {
+    const styleError = caption.style && typeof caption.style === 'object' ? validateStyle(caption.style, 'style') : 'style must be an object';
+    if (styleError) return styleError;
+  }
+
+  const hasText = [caption.top, caption.bottom, ...boxes.map(box => box.text)].some(text => text?.trim());
+  return hasText ? null : 'caption needs some text';
+}
+
+// Transparent PNG the size of the frame, ready to composite over each one
+export function renderCaptionOverlay(width: number, height: number, caption: Caption): Promise<Buffer> {
+  return sharp(Buffer.from(captionSvg(width, height, caption))).png().toBuffer();
+}
@@ -0,0 +1,181 @@
+import type { Caption, CaptionFont, TextAlign, TextBox, TextStyle } from './types.js';
+
+interface FontSpec {
+  // Fallbacks keep captions bold and legible on servers without the first choice installed
+  family: string;
+  weight: string;
+  // Multiplier on the estimated glyph widths used for wrapping
+  widthScale: number;
+}
+
+export const CAPTION_FONTS: Record<CaptionFont, FontSpec> = {
+  impact: { family: "Impact, Anton, 'Arial Black', 'DejaVu Sans', sans-serif", weight: 'bold', widthScale: 1 },
+  sans: { family: "Arial, Helvetica, 'DejaVu Sans', sans-serif", weight: 'bold', widthScale: 0.95 },
+  serif: { family: "Georgia, 'Times New Roman', 'DejaVu Serif', serif", weight: 'bold', widthScale: 0.95 },
+  mono: { family: "'Courier New', 'DejaVu Sans Mono', monospace", weight: 'bold', widthScale: 1 }
+};
+
+const LINE_HEIGHT = 1.15;
+// Distance from the top of a line to its baseline, in ems
+const ASCENT = 0.9;
+const MAX_CAPTION_LINES = 3;
+// Top and bottom captions may cover this much of the frame height each
+const MAX_CAPTION_HEIGHT = 0.3;
+const MIN_FONT_SIZE = 10;
+
+interface ResolvedStyle {
+  font: CaptionFont;
+  size: number | null;
+  colour: string;
+  strokeColour: string;
+  strokeWidth: number | null;
+  uppercase: boolean;
+}
+
+interface TextBlock {
+  lines: string[];
+  size: number;
+  style: ResolvedStyle;
+  anchor: 'start' | 'middle' | 'end';
+  x: number;
+  top: number;
+}
+
+function resolveStyle(style: TextStyle = {}, base: TextStyle = {}): ResolvedStyle {
+  const font = style.font ?? base.font ?? 'impact';
+  return {
+    font,
+    size: style.size ?? base.size ?? null,
+    colour: style.colour ?? base.colour ?? '#ffffff',
+    strokeColour: style.strokeColour ?? base.strokeColour ?? '#000000',
+    strokeWidth: style.strokeWidth ?? base.strokeWidth ?? null,
+    uppercase: style.uppercase ?? base.uppercase ?? font === 'impact'
+  };
+}
+
+// No font metrics are available here, so widths are estimated from character classes, erring wide
+function charWidth(char: string, font: CaptionFont): number {
+  if (font === 'mono') return 0.6;
+  if (char === ' ') return 0.32;
+  if (/[il.,:;!'|]/.test(char)) return 0.32;
+  if (/[A-Z@%&MWmw]/.test(char)) return 0.74;
+  return 0.6;
+}
+
+function textWidth(text: string, size: number, font: CaptionFont): number {
+  return [...text].reduce((total, char) => total + charWidth(char, font), 0) * size * CAPTION_FONTS[font].widthScale;
+}
+
+// Greedy word wrap; words too long for a line on their own are split
+function wrap(text: string, maxWidth: number, size: number, font: CaptionFont): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+      while (textWidth(word, size, font) > maxWidth && word.length > 1) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        let cut = word.length - 1;
+        while (cut > 1 && textWidth(word.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(word.slice(0, cut));
+        word = word.slice(cut);
+      }
+      const joined = line ? `${line} ${word}` : word;
+      if (line && textWidth(joined, size, font) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = joined;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function strokeFor(style: ResolvedStyle, size: number): number {
+  return style.strokeWidth ?? Math.max(1, Math.round(size * 0.06));
+}
+
+function blockHeight(lines: string[], size: number): number {
+  return lines.length * size * LINE_HEIGHT;
+}
+
+// Shrink from a large default until the caption fits the width in a few lines
+function fitCaption(text: string, style: ResolvedStyle, width: number, height: number): { lines: string[]; size: number } {
+  let size = style.size ?? Math.max(MIN_FONT_SIZE, Math.round(height * 0.14));
+  for (;;) {
+    const maxWidth = width * 0.94 - 2 * strokeFor(style, size);
+    const lines = wrap(text, maxWidth, size, style.font);
+    const fits = lines.length <= MAX_CAPTION_LINES && blockHeight(lines, size) <= height * MAX_CAPTION_HEIGHT;
+    if (style.size || fits || size <= MIN_FONT_SIZE) {
+      return { lines, size };
+    }
+    size = Math.max(MIN_FONT_SIZE, Math.floor(size * 0.9));
+  }
+}
+
+function captionBlock(text: string, edge: 'top' | 'bottom', style: ResolvedStyle, width: number, height: number): TextBlock {
+  const { lines, size } = fitCaption(style.uppercase ? text.toUpperCase() : text, style, width, height);
+  const margin = Math.round(height * 0.03) + strokeFor(style, size);
+  const top = edge === 'top' ? margin : height - margin - blockHeight(lines, size);
+  return { lines, size, style, anchor: 'middle', x: width / 2, top };
+}
+
+const ANCHORS: Record<TextAlign, TextBlock['anchor']> = { left: 'start', center: 'middle', right: 'end' };
+
+function boxBlock(box: TextBox, base: TextStyle, width: number, height: number): TextBlock {
+  const style = resolveStyle(box, base);
+  const size = style.size ?? Math.max(MIN_FONT_SIZE, Math.round(height / 12));
+  const text = style.uppercase ? box.text.toUpperCase() : box.text;
+  const lines = wrap(text, (box.width ?? 0.9) * width - 2 * strokeFor(style, size), size, style.font);
+  return {
+    lines,
+    size,
+    style,
+    anchor: ANCHORS[box.align ?? 'center'],
+    x: box.x * width,
+    top: box.y * height - blockHeight(lines, size) / 2
+  };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function blockSvg({ lines, size, style, anchor, x, top }: TextBlock): string {
+  const font = CAPTION_FONTS[style.font];
+  const stroke = strokeFor(style, size);
+  // The stroke is painted first and doubled, so only its outer half shows around the letters
+  const attributes = [
+    `x="${x.toFixed(1)}"`,
+    `font-family="${font.family}"`,
+    `font-weight="${font.weight}"`,
+    `font-size="${size}"`,
+    `text-anchor="${anchor}"`,
+    `fill="${style.colour}"`,
+    ...(stroke > 0
+      ? [`stroke="${style.strokeColour}"`, `stroke-width="${stroke * 2}"`, 'stroke-linejoin="round"', 'paint-order="stroke"']
+      : [])
+  ].join(' ');
+  return lines
+    .map((line, i) => {
+      const baseline = top + (i * LINE_HEIGHT + ASCENT) * size;
+      return `<text ${attributes} y="${baseline.toFixed(1)}" xml:space="preserve">${escapeXml(line)}</text>`;
+    })
+    .join('');
+}
+
+// The overlay is the same size as the GIF, transparent apart from the text
+export function captionSvg(width: number, height: number, caption: Caption): string {
+  const base = caption.style ?? {};
+  const style = resolveStyle(base);
+  const blocks: TextBlock[] = [
+    ...(caption.top?.trim() ? [captionBlock(caption.top.trim(), 'top', style, width, height)] : []),
+    ...(caption.bottom?.trim() ? [captionBlock(caption.bottom.trim(), 'bottom', style, width, height)] : []),
+    ...(caption.boxes ?? []).filter(box => box.text.trim()).map(box => boxBlock(box, base, width, height))
+  ];
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${blocks.map(blockSvg).join('')}</svg>`;
+}
@@ -0,0 +1,36 @@
+export type CaptionFont = 'impact' | 'sans' | 'serif' | 'mono';
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Sizes are in pixels of the GIF being captioned
+export interface TextStyle {
+  font?: CaptionFont;
+  // Font size; top and bottom captions shrink to fit when this is left out
+  size?: number;
+  // Hex colours such as #fff or #ffcc00
+  colour?: string;
+  strokeColour?: string;
+  // Outline drawn around each letter, 0 for none
+  strokeWidth?: number;
+  uppercase?: boolean;
+}
+
+// Free-standing text placed anywhere on the frame
+export interface TextBox extends TextStyle {
+  text: string;
+  // Anchor point as a fraction of the frame size, 0-1. The text is centred vertically on y,
+  // and starts, centres or ends on x depending on align.
+  x: number;
+  y: number;
+  // Wrapping width as a fraction of the frame width
+  width?: number;
+  align?: TextAlign;
+}
+
+export interface Caption {
+  // Classic meme captions along the top and bottom edges
+  top?: string;
+  bottom?: string;
+  boxes?: TextBox[];
+  // Applies to top, bottom and any box that doesn't set its own style
+  style?: TextStyle;
+}
@@ -0,0 +1,125 @@
+import sharp from 'sharp';
+import { createJsonCollection } from '../json-collection.js';
+import { downloadFile } from '../media.js';
+import { CATALOG_SEED } from './seed.js';
+import type { CatalogEntry, CatalogEntryInput, CatalogPage, CatalogQuery } from './types.js';
+
+export * from './types.js';
+
+export const DEFAULT_CATALOG_PAGE_SIZE = 24;
+export const MAX_CATALOG_PAGE_SIZE = 100;
+
+const entries = createJsonCollection<CatalogEntry>('catalog.json', entry => entry.id);
+let seeded: Promise<void> | null = null;
+
+function toEntry(input: CatalogEntryInput, previous?: CatalogEntry | null): CatalogEntry {
+  const sameSource = previous?.sourceUrl === input.sourceUrl;
+  return {
+    id: input.id,
+    title: input.title,
+    sourceUrl: input.sourceUrl,
+    type: input.type ?? previous?.type ?? 'gif',
+    category: input.category,
+    tags: input.tags,
+    width: sameSource ? previous.width : null,
+    height: sameSource ? previous.height : null,
+    frames: sameSource ? previous.frames : null,
+    faces: input.faces ?? (sameSource ? previous.faces : null),
+    addedAt: previous?.addedAt ?? new Date().toISOString()
+  };
+}
+
+// The seed only fills an empty catalog, so entries removed by an admin stay removed
+function ensureSeeded(): Promise<void> {
+  if (!seeded) {
+    seeded = (async () => {
+      if ((await entries.all()).length > 0) return;
+      for (const input of CATALOG_SEED) {
+        await entries.set(toEntry(input));
+      }
+      console.log(`Seeded catalog with ${CATALOG_SEED.length} entries`);
+    })();
+  }
+  return seeded;
+}
+
+function matches(entry: CatalogEntry, { category, tag, q }: CatalogQuery): boolean {
+  if (category && entry.category !== category) return false;
+  if (tag && !entry.tags.includes(tag)) return false;
+  if (q) {
+    const haystack = [entry.title, entry.category, ...entry.tags].join(' ').toLowerCase();
+    return q.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+  }
+  return true;
+}
+
+// Entries are listed in the order they were added
+export async function listCatalog(query: CatalogQuery): Promise<CatalogPage> {
+  await ensureSeeded();
+  const all = await entries.all();
+  const found = all.filter(entry => matches(entry, query));
+  const start = (query.page - 1) * query.pageSize;
+
+  const counts = new Map<string, number>();
+  all.forEach(entry => counts.set(entry.category, (counts.get(entry.category) ?? 0) + 1));
+
+  return {
+    items: found.slice(start, start + query.pageSize),
+    total: found.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages: Math.ceil(found.length / query.pageSize),
+    categories: [...counts].map(([id, count]) => ({ id, count }))
+  };
+}
+
+export async function getCatalogEntry(id: string): Promise<CatalogEntry | null> {
+  await ensureSeeded();
+  return entries.get(id);
+}
+
+// Read the dimensions and frame count from the source file
+async function probeEntry(entry: CatalogEntry): Promise<CatalogEntry> {
+  const metadata = await sharp(await downloadFile(entry.sourceUrl), { animated: true }).metadata();
+  return {
+    ...entry,
+    width: metadata.width,
+    height: metadata.pageHeight || metadata.height,
+    frames: metadata.pages || 1
+  };
+}
+
+// Add or replace an entry; the source is probed straight away so bad URLs are caught here
+export async function saveCatalogEntry(input: CatalogEntryInput): Promise<CatalogEntry> {
+  await ensureSeeded();
+  const entry = toEntry(input, await entries.get(input.id));
+  return entries.set(entry.frames === null ? await probeEntry(entry) : entry);
+}
+
+export async function deleteCatalogEntry(id: string): Promise<boolean> {
+  await ensureSeeded();
+  return entries.delete(id);
+}
+
+// Fill in dimensions for seeded entries in the background; failures are retried on the next start
+export async function probeCatalog(): Promise<void> {
+  await ensureSeeded();
+  const pending = (await entries.all()).filter(entry => entry.frames === null);
+  let probed = 0;
+  for (const entry of pending) {
+    try {
+      const result = await probeEntry(entry);
+      // An admin may have changed the entry while it downloaded
+      const current = await entries.get(entry.id);
+      if (current?.sourceUrl === entry.sourceUrl) {
+        await entries.set({ ...current, width: result.width, height: result.height, frames: result.frames });
+        probed++;
+      }
+    } catch (error) {
+      console.error(`Failed to probe catalog entry ${entry.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  if (pending.length > 0) {
+    console.log(`Probed ${probed} of ${pending.length} catalog entries`);
+  }
+}
@@ -0,0 +1,133 @@
+import type { CatalogEntryInput } from './types.js';
+
+// Loaded into an empty catalog on first start; after that the stored catalog is the source of truth
+// and entries are managed through /api/admin/catalog
+export const CATALOG_SEED: CatalogEntryInput[] = [
+  {
+    id: 'side-eye-chloe',
+    title: 'Side Eye Chloe',
+    sourceUrl:
+      'https://media1.giphy.com/media/v1.Y2lkPTc5MGI3NjExcHZhN2xtZGRtZ3ZsNmhqdHl3amF1b24yM2RyOGpwMG1xaHYxZnVnZiZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/kaq6GnxDlJaBq/giphy.gif',
+    category: 'reactions',
+    tags: ['side-eye', 'skeptical', 'kid'],
+    faces: 1
+  },
+  {
+    id: 'geEvRnbQqLYsb5WOr8',
+    title: 'GIF 2',
+    sourceUrl:
+      'https://media2.giphy.com/media/v1.Y2lkPTc5MGI3NjExenRhN3U0ZXNnbmZqc2ZoYXJuOGFrZnJ1eTY3OXBhd2czNXoxczdtdyZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/geEvRnbQqLYsb5WOr8/giphy.gif',
+    category: 'reactions',
+    tags: []
+  },
+  {
+    id: 'bWM2eWYfN3r20',
+    title: 'GIF 3',
+    sourceUrl: 'https://media.giphy.com/media/bWM2eWYfN3r20/giphy.gif',
+    category: 'reactions',
+    tags: []
+  },
+  {
+    id: 'coffee-cup-meme',
+    title: 'Coffee Cup Meme',
+    sourceUrl: 'https://media.giphy.com/media/6pJNYBYSMFod2/giphy.gif',
+    category: 'reactions',
+    tags: ['coffee', 'sip']
+  },
+  {
+    id: 'white-guy-blink',
+    title: 'White Guy Blink',
+    sourceUrl: 'https://media.giphy.com/media/l3q2K5jinAlChoCLS/giphy.gif',
+    category: 'classics',
+    tags: ['blink', 'surprised', 'disbelief'],
+    faces: 1
+  },
+  {
+    id: 'watermelon',
+    title: 'Watermelon',
+    sourceUrl: 'https://media.giphy.com/media/13n7XeyIXEIrbG/giphy.gif',
+    category: 'reactions',
+    tags: ['watermelon', 'eating']
+  },
+  {
+    id: 'think-hmm',
+    title: 'Think Hmm',
+    sourceUrl: 'https://media.giphy.com/media/d3mlE7uhX8KFgEmY/giphy.gif',
+    category: 'reactions',
+    tags: ['thinking', 'hmm']
+  },
+  {
+    id: 'shaq-shimmy',
+    title: 'Shaq Shimmy',
+    sourceUrl: 'https://media.giphy.com/media/UO5elnTqo4vSg/giphy.gif',
+    category: 'sports',
+    tags: ['shaq', 'dance', 'celebrate'],
+    faces: 1
+  },
+  {
+    id: 'xL7PDV9frcudO',
+    title: 'Confused Math Lady',
+    sourceUrl:
+      'https://media1.giphy.com/media/v1.Y2lkPTc5MGI3NjExNDZ0cWJvNzk1cmEwMmhwNzdmdDhkdnNob2FqYjVhcTU0YTMzejEweSZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/xL7PDV9frcudO/giphy.gif',
+    category: 'classics',
+    tags: ['confused', 'math', 'thinking'],
+    faces: 1
+  },
+  {
+    id: 'cF7QqO5DYdft6',
+    title: 'Homer Simpson Backing Into Bushes',
+    sourceUrl:
+      'https://media2.giphy.com/media/v1.Y2lkPTc5MGI3NjExcTVyMXV1aGJ2OXp6Z2hhbmNsYnh0dnB5NmJndGU0NWJrMHl4NzQ5ayZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/cF7QqO5DYdft6/giphy.gif',
+    category: 'cartoons',
+    tags: ['homer', 'simpsons', 'awkward', 'leaving']
+  },
+  {
+    id: '11ISwbgCxEzMyY',
+    title: 'Shaq Shaking Head',
+    sourceUrl:
+      'https://media0.giphy.com/media/v1.Y2lkPTc5MGI3NjExamt1YmpiNzgzbG53eGhrZ3FnaTZycnY2cWs1ZTM0cnczZHVoM20wcyZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/11ISwbgCxEzMyY/giphy.gif',
+    category: 'sports',
+    tags: ['shaq', 'no', 'disapprove'],
+    faces: 1
+  },
+  {
+    id: 'GpsHIJ4IBN7sn28ieH',
+    title: 'Dog Reaction GIF',
+    sourceUrl:
+      'https://media3.giphy.com/media/v1.Y2lkPTc5MGI3NjExbnplaHczMW5obms0NDI1ZXJ2dWx1Yml4NmprNWlremhvazU5amRxdiZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/GpsHIJ4IBN7sn28ieH/giphy.gif',
+    category: 'animals',
+    tags: ['dog']
+  },
+  {
+    id: 'BPJmthQ3YRwD6QqcVD',
+    title: 'Surprised Pikachu',
+    sourceUrl:
+      'https://media3.giphy.com/media/v1.Y2lkPTc5MGI3NjExOXRkY204OGhsNHdyYjAyazdrbGw3aXFkNnMyZGRrYW11OXFkd2lxNCZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/BPJmthQ3YRwD6QqcVD/giphy.gif',
+    category: 'cartoons',
+    tags: ['pikachu', 'pokemon', 'surprised']
+  },
+  {
+    id: 'cXblnKXr2BQOaYnTni',
+    title: 'Crying Cat Thumbs Up',
+    sourceUrl:
+      'https://media4.giphy.com/media/v1.Y2lkPTc5MGI3NjExbzE0Z280N2NweWNqcTg4a3k2bnF1bDYxcGQxODN6cnNkZWkyNnoweSZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/cXblnKXr2BQOaYnTni/giphy.gif',
+    category: 'animals',
+    tags: ['cat', 'crying', 'thumbs-up', 'ok']
+  },
+  {
+    id: 'CycIvRahkUp0Y',
+    title: 'Success Kid',
+    sourceUrl:
+      'https://media3.giphy.com/media/v1.Y2lkPTc5MGI3NjExbjV3azJ3YzZyM282YXc5eXo5eDR2NXJheW44dHdwMzViaGFodG1payZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/CycIvRahkUp0Y/giphy.gif',
+    category: 'classics',
+    tags: ['success', 'win', 'kid'],
+    faces: 1
+  },
+  {
+    id: 's239QJIh56sRW',
+    title: 'GIF 1',
+    sourceUrl: 'https://media.giphy.com/media/s239QJIh56sRW/giphy.gif',
+    category: 'reactions',
+    tags: []
+  }
+];
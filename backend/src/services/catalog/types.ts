@@ -0,0 +1,41 @@
+export type CatalogMediaType = 'gif' | 'image';
+
+export interface CatalogEntry {
+  id: string;
+  title: string;
+  sourceUrl: string;
+  type: CatalogMediaType;
+  category: string;
+  tags: string[];
+  // Read from the source file; null until it has been probed
+  width: number | null;
+  height: number | null;
+  frames: number | null;
+  // People whose faces can be swapped; null when nobody has counted
+  faces: number | null;
+  addedAt: string;
+}
+
+// What the seed and admins provide; the rest is filled in by probing the source
+export type CatalogEntryInput = Pick<CatalogEntry, 'id' | 'title' | 'sourceUrl' | 'category' | 'tags'> &
+  Partial<Pick<CatalogEntry, 'type' | 'faces'>>;
+
+export interface CatalogQuery {
+  category?: string;
+  tag?: string;
+  // Words matched against titles, tags and categories
+  q?: string;
+  // 1-based
+  page: number;
+  pageSize: number;
+}
+
+export interface CatalogPage {
+  items: CatalogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  // Every category with its entry count, for building filters
+  categories: { id: string; count: number }[];
+}
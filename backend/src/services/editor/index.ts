@@ -0,0 +1,65 @@
+import sharp from 'sharp';
+import { applyOperation, MAX_FRAMES, MIN_FRAME_DELAY_MS } from './operations.js';
+import type { Animation, EditOperation, EditResult } from './types.js';
+
+export * from './types.js';
+export { EDIT_OPERATIONS, validateOperations } from './operations.js';
+
+// Browsers play GIF frames with no delay at 100ms
+const DEFAULT_FRAME_DELAY_MS = 100;
+
+async function decodeAnimation(gif: Buffer): Promise<Animation> {
+  const image = sharp(gif, { animated: true });
+  const metadata = await image.metadata();
+  const width = metadata.width;
+  const height = metadata.pageHeight || metadata.height;
+  const pages = metadata.pages || 1;
+  const raw = await image.ensureAlpha().raw().toBuffer();
+  const frameBytes = width * height * 4;
+  return {
+    width,
+    height,
+    frames: Array.from({ length: pages }, (_, i) => raw.subarray(i * frameBytes, (i + 1) * frameBytes)),
+    delays: Array.from({ length: pages }, (_, i) => metadata.delay?.[i] || DEFAULT_FRAME_DELAY_MS),
+    loop: metadata.loop ?? 0
+  };
+}
+
+// GIF delays are stored in hundredths of a second
+function gifDelay(delay: number): number {
+  return Math.max(MIN_FRAME_DELAY_MS, Math.round(delay / 10) * 10);
+}
+
+async function encodeAnimation({ width, height, frames, delays, loop }: Animation): Promise<Buffer> {
+  return sharp(Buffer.concat(frames), { raw: { width, height: height * frames.length, channels: 4, pageHeight: height } })
+    .gif({ delay: delays.map(gifDelay), loop })
+    .toBuffer();
+}
+
+// Apply the operations in order; each one sees the output of the last. Returns a message instead
+// when an operation can't be applied to this GIF.
+export async function editGif(gif: Buffer, operations: EditOperation[]): Promise<EditResult | string> {
+  const start = Date.now();
+  let animation = await decodeAnimation(gif);
+  for (const op of operations) {
+    animation = await applyOperation(animation, op);
+    if (animation.frames.length === 0) {
+      return `The ${op.op} operation left no frames`;
+    }
+    if (animation.frames.length > MAX_FRAMES) {
+      return `The ${op.op} operation made ${animation.frames.length} frames; at most ${MAX_FRAMES} are allowed`;
+    }
+  }
+
+  const data = await encodeAnimation(animation);
+  const durationMs = animation.delays.reduce((total, delay) => total + gifDelay(delay), 0);
+  console.log(`Edited GIF (${operations.map(op => op.op).join(', ')}): ${animation.frames.length} frames, ${durationMs}ms in ${Date.now() - start}ms`);
+  return {
+    data,
+    width: animation.width,
+    height: animation.height,
+    frames: animation.frames.length,
+    durationMs,
+    loop: animation.loop
+  };
+}
@@ -0,0 +1,161 @@
+import sharp from 'sharp';
+import { renderCaptionOverlay, validateCaption } from '../captions/index.js';
+import type { Animation, CaptionOperation, EditOperation, TrimOperation } from './types.js';
+
+export const EDIT_OPERATIONS = ['trim', 'speed', 'reverse', 'boomerang', 'loop', 'caption'] as const;
+export const MAX_OPERATIONS = 20;
+// Boomerangs double the frame count, so cap what a chain of them can build
+export const MAX_FRAMES = 1000;
+export const MIN_SPEED = 0.1;
+export const MAX_SPEED = 10;
+export const MAX_LOOP_COUNT = 100;
+// Browsers slow anything shorter down to 100ms
+export const MIN_FRAME_DELAY_MS = 20;
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function validateTrim(op: TrimOperation): string | null {
+  const frames = op.startFrame !== undefined || op.endFrame !== undefined;
+  const times = op.startMs !== undefined || op.endMs !== undefined;
+  if (frames === times) {
+    return 'trim needs startFrame/endFrame or startMs/endMs';
+  }
+  const [start, end] = frames ? [op.startFrame, op.endFrame] : [op.startMs, op.endMs];
+  if ((start !== undefined && !isCount(start)) || (end !== undefined && !isCount(end))) {
+    return 'trim bounds must be whole numbers of 0 or more';
+  }
+  if (start !== undefined && end !== undefined && end <= start) {
+    return 'trim end must be after its start';
+  }
+  return null;
+}
+
+function validateOperation(op: EditOperation): string | null {
+  switch (op.op) {
+    case 'trim':
+      return validateTrim(op);
+    case 'speed':
+      return typeof op.factor === 'number' && op.factor >= MIN_SPEED && op.factor <= MAX_SPEED
+        ? null
+        : `speed factor must be from ${MIN_SPEED} to ${MAX_SPEED}`;
+    case 'loop':
+      return isCount(op.count) && op.count <= MAX_LOOP_COUNT ? null : `loop count must be a whole number from 0 to ${MAX_LOOP_COUNT}`;
+    case 'caption':
+      return validateCaption(op);
+    case 'reverse':
+    case 'boomerang':
+      return null;
+  }
+}
+
+// Returns a message describing the first problem, or null when the list can be applied
+export function validateOperations(operations: unknown): string | null {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return 'operations must be a non-empty array';
+  }
+  if (operations.length > MAX_OPERATIONS) {
+    return `At most ${MAX_OPERATIONS} operations are allowed`;
+  }
+  for (const [index, op] of operations.entries()) {
+    if (!op || typeof op !== 'object' || !EDIT_OPERATIONS.includes(op.op)) {
+      return `Operation ${index + 1} must have op set to one of: ${EDIT_OPERATIONS.join(', ')}`;
+    }
+    const error = validateOperation(op as EditOperation);
+    if (error) {
+      return `Operation ${index + 1}: ${error}`;
+    }
+  }
+  return null;
+}
+
+function withFrames(animation: Animation, indexes: number[], delays?: number[]): Animation {
+  return {
+    ...animation,
+    frames: indexes.map(i => animation.frames[i]),
+    delays: delays ?? indexes.map(i => animation.delays[i])
+  };
+}
+
+function range(start: number, end: number): number[] {
+  return Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i);
+}
+
+// Time trims keep every frame showing during the range, shortening the first and last to fit it
+function trim(animation: Animation, op: TrimOperation): Animation {
+  const count = animation.frames.length;
+  if (op.startFrame !== undefined || op.endFrame !== undefined) {
+    const start = Math.min(op.startFrame ?? 0, count);
+    return withFrames(animation, range(start, Math.min(op.endFrame ?? count, count)));
+  }
+
+  const startMs = op.startMs ?? 0;
+  const endMs = op.endMs ?? Infinity;
+  const indexes: number[] = [];
+  const delays: number[] = [];
+  let time = 0;
+  animation.delays.forEach((delay, index) => {
+    const shown = Math.min(time + delay, endMs) - Math.max(time, startMs);
+    if (shown > 0) {
+      indexes.push(index);
+      delays.push(shown);
+    }
+    time += delay;
+  });
+  return withFrames(animation, indexes, delays);
+}
+
+// Frames that would flash by faster than browsers allow are folded into the one before them,
+// which keeps the overall duration right
+function speed(animation: Animation, factor: number): Animation {
+  const indexes: number[] = [];
+  const delays: number[] = [];
+  animation.delays.forEach((delay, index) => {
+    const scaled = delay / factor;
+    const last = delays.length - 1;
+    if (last >= 0 && delays[last] < MIN_FRAME_DELAY_MS) {
+      delays[last] += scaled;
+    } else {
+      indexes.push(index);
+      delays.push(scaled);
+    }
+  });
+  return withFrames(animation, indexes, delays);
+}
+
+// The turning frames aren't repeated, so the motion doesn't stall at either end
+function boomerang(animation: Animation): Animation {
+  const count = animation.frames.length;
+  const back = range(1, count - 1).reverse();
+  return withFrames(animation, [...range(0, count), ...back]);
+}
+
+// The overlay is rendered once and composited over every frame
+async function caption(animation: Animation, op: CaptionOperation): Promise<Animation> {
+  const { width, height } = animation;
+  const overlay = await renderCaptionOverlay(width, height, op);
+  const frames = await Promise.all(
+    animation.frames.map(frame =>
+      sharp(frame, { raw: { width, height, channels: 4 } }).composite([{ input: overlay }]).raw().toBuffer()
+    )
+  );
+  return { ...animation, frames };
+}
+
+export async function applyOperation(animation: Animation, op: EditOperation): Promise<Animation> {
+  switch (op.op) {
+    case 'trim':
+      return trim(animation, op);
+    case 'speed':
+      return speed(animation, op.factor);
+    case 'reverse':
+      return withFrames(animation, range(0, animation.frames.length).reverse());
+    case 'boomerang':
+      return boomerang(animation);
+    case 'loop':
+      return { ...animation, loop: op.count };
+    case 'caption':
+      return caption(animation, op);
+  }
+}
@@ -0,0 +1,66 @@
+import type { Caption } from '../captions/types.js';
+
+// Frame ranges are zero-based and end-exclusive; time ranges are in milliseconds from the start.
+// A trim uses either frames or times, not both.
+export interface TrimOperation {
+  op: 'trim';
+  startFrame?: number;
+  endFrame?: number;
+  startMs?: number;
+  endMs?: number;
+}
+
+export interface SpeedOperation {
+  op: 'speed';
+  // 2 plays twice as fast, 0.5 at half speed
+  factor: number;
+}
+
+export interface ReverseOperation {
+  op: 'reverse';
+}
+
+// Plays forwards then backwards
+export interface BoomerangOperation {
+  op: 'boomerang';
+}
+
+export interface LoopOperation {
+  op: 'loop';
+  // How many times the animation plays; 0 loops forever
+  count: number;
+}
+
+// Text drawn onto every frame
+export interface CaptionOperation extends Caption {
+  op: 'caption';
+}
+
+export type EditOperation =
+  | TrimOperation
+  | SpeedOperation
+  | ReverseOperation
+  | BoomerangOperation
+  | LoopOperation
+  | CaptionOperation;
+
+// Decoded animation the operations work on
+export interface Animation {
+  width: number;
+  height: number;
+  // One RGBA buffer per frame
+  frames: Buffer[];
+  // Milliseconds each frame is shown
+  delays: number[];
+  // GIF loop count; 0 loops forever
+  loop: number;
+}
+
+export interface EditResult {
+  data: Buffer;
+  width: number;
+  height: number;
+  frames: number;
+  durationMs: number;
+  loop: number;
+}
@@ -0,0 +1,160 @@
+import sharp from 'sharp';
+import { runFfmpeg, withTempFiles } from '../ffmpeg.js';
+import type { ExportEncoder, ExportOptions } from './types.js';
+
+// Map 1-100 quality onto an encoder's constant-quality scale, where lower is better
+function crf(quality: number, worst: number, best: number): number {
+  return Math.round(worst - ((worst - best) * quality) / 100);
+}
+
+function fitWithin(image: sharp.Sharp, { width, height }: ExportOptions) {
+  return width || height ? image.resize({ width, height, fit: 'inside', withoutEnlargement: true }) : image;
+}
+
+function loadFrames(gif: Buffer, options: ExportOptions) {
+  return fitWithin(sharp(gif, { animated: true }), options);
+}
+
+const isGifData = (data: Buffer) => data.toString('latin1', 0, 4) === 'GIF8';
+
+// ffmpeg reads the GIF itself so frame timings carry over. sharp re-encodes first only to resize, or to
+// turn a still PNG or JPEG result into a one-frame GIF, since the ffmpeg inputs below are read as GIF
+async function resizedGif(gif: Buffer, options: ExportOptions, background?: string): Promise<Buffer> {
+  if (isGifData(gif) && !options.width && !options.height && !background) {
+    return gif;
+  }
+  const frames = loadFrames(gif, options);
+  return (background ? frames.flatten({ background }) : frames).gif({ loop: 0 }).toBuffer();
+}
+
+const gifEncoder: ExportEncoder = {
+  format: 'gif',
+  contentType: 'image/gif',
+  extension: 'gif',
+  animated: true,
+  lossy: false,
+  // Quality doesn't apply; the GIF is only re-encoded to resize it
+  encode: (gif, options) => resizedGif(gif, options)
+};
+
+const mp4Encoder: ExportEncoder = {
+  format: 'mp4',
+  contentType: 'video/mp4',
+  extension: 'mp4',
+  animated: true,
+  lossy: true,
+  async encode(gif, options) {
+    // H.264 has no alpha channel, and yuv420p needs even dimensions
+    const input = await resizedGif(gif, options, '#ffffff');
+    return withTempFiles(input, 'gif', 'mp4', (inputPath, outputPath) =>
+      runFfmpeg(inputPath, outputPath, ['-f', 'gif'], [
+        '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+        '-pix_fmt', 'yuv420p',
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-crf', String(crf(options.quality, 51, 16)),
+        // Lets players start before the whole file has arrived
+        '-movflags', '+faststart',
+        '-an'
+      ])
+    );
+  }
+};
+
+const webmEncoder: ExportEncoder = {
+  format: 'webm',
+  contentType: 'video/webm',
+  extension: 'webm',
+  animated: true,
+  lossy: true,
+  async encode(gif, options) {
+    const input = await resizedGif(gif, options);
+    return withTempFiles(input, 'gif', 'webm', (inputPath, outputPath) =>
+      runFfmpeg(inputPath, outputPath, ['-f', 'gif'], [
+        '-c:v', 'libvpx-vp9',
+        '-pix_fmt', 'yuva420p',
+        '-b:v', '0',
+        '-crf', String(crf(options.quality, 63, 15)),
+        '-deadline', 'good',
+        '-cpu-used', '4',
+        '-an'
+      ])
+    );
+  }
+};
+
+const apngEncoder: ExportEncoder = {
+  format: 'apng',
+  contentType: 'image/apng',
+  extension: 'png',
+  animated: true,
+  lossy: false,
+  // Lossless, so quality doesn't apply
+  async encode(gif, options) {
+    const input = await resizedGif(gif, options);
+    return withTempFiles(input, 'gif', 'png', (inputPath, outputPath) =>
+      runFfmpeg(inputPath, outputPath, ['-f', 'gif'], [
+        '-vf', 'split[a][b];[a]palettegen=reserve_transparent=1[p];[b][p]paletteuse=dither=none',
+        '-pix_fmt', 'pal8',
+        '-c:v', 'apng',
+        '-f', 'apng',
+        '-plays', '0',
+        '-an'
+      ])
+    );
+  }
+};
+
+const webpEncoder: ExportEncoder = {
+  format: 'webp',
+  contentType: 'image/webp',
+  extension: 'webp',
+  animated: true,
+  lossy: true,
+  encode: (gif, options) => loadFrames(gif, options).webp({ quality: options.quality, effort: 4, loop: 0 }).toBuffer()
+};
+
+// libheif can't write AVIF image sequences and the bundled ffmpeg predates the AVIF muxer
+const avifEncoder: ExportEncoder = {
+  format: 'avif',
+  contentType: 'image/avif',
+  extension: 'avif',
+  animated: false,
+  lossy: true,
+  encode: (gif, options) => fitWithin(sharp(gif, { pages: 1 }), options).avif({ quality: options.quality, effort: 4 }).toBuffer()
+};
+
+// Still formats, for image swap results or a single frame of a GIF
+const pngEncoder: ExportEncoder = {
+  format: 'png',
+  contentType: 'image/png',
+  extension: 'png',
+  animated: false,
+  lossy: false,
+  encode: (image, options) => fitWithin(sharp(image, { pages: 1 }), options).png({ compressionLevel: 9 }).toBuffer()
+};
+
+const jpegEncoder: ExportEncoder = {
+  format: 'jpeg',
+  contentType: 'image/jpeg',
+  extension: 'jpg',
+  animated: false,
+  lossy: true,
+  // No alpha channel, so transparent areas go white
+  encode: (image, options) =>
+    fitWithin(sharp(image, { pages: 1 }), options)
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: options.quality, mozjpeg: true })
+      .toBuffer()
+};
+
+export const EXPORT_ENCODERS: ExportEncoder[] = [
+  gifEncoder,
+  mp4Encoder,
+  webmEncoder,
+  apngEncoder,
+  webpEncoder,
+  avifEncoder,
+  pngEncoder,
+  jpegEncoder
+];
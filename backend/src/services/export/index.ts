@@ -0,0 +1,50 @@
+import { optimizeGif, trimGif } from '../optimizer/index.js';
+import { EXPORT_ENCODERS } from './encoders.js';
+import type { ExportEncoder, ExportFormat, ExportOptions, ExportResult } from './types.js';
+
+export * from './types.js';
+
+export const EXPORT_FORMATS = EXPORT_ENCODERS.map(encoder => encoder.format);
+export const DEFAULT_EXPORT_QUALITY = 80;
+// Qualities tried in turn when a lossy export is over maxBytes
+const FALLBACK_QUALITIES = [60, 40, 25];
+
+export function getExportEncoder(format: string): ExportEncoder | null {
+  return EXPORT_ENCODERS.find(encoder => encoder.format === format) ?? null;
+}
+
+// Convert a swap result (a GIF, or a PNG or JPEG for still image swaps) into another format
+export async function exportGif(gif: Buffer, format: ExportFormat, options: ExportOptions): Promise<ExportResult> {
+  const encoder = getExportEncoder(format);
+  if (!encoder) {
+    throw new Error(`Unknown export format "${format}". Expected one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  const start = Date.now();
+  const result = { format: encoder.format, contentType: encoder.contentType, extension: encoder.extension, animated: encoder.animated };
+  const { maxBytes, maxDurationMs } = options;
+
+  // GIFs have no quality knob; the optimizer searches size, frames and colours instead
+  if (encoder.format === 'gif' && maxBytes) {
+    const optimized = await optimizeGif(gif, { maxBytes, maxWidth: options.width, maxHeight: options.height, maxDurationMs });
+    console.log(`Exported gif: ${gif.length} -> ${optimized.data.length} bytes in ${Date.now() - start}ms`);
+    return { ...result, data: optimized.data, quality: options.quality, fits: optimized.fits };
+  }
+
+  const source = maxDurationMs ? await trimGif(gif, maxDurationMs) : gif;
+  const qualities = [options.quality];
+  if (maxBytes && encoder.lossy) {
+    qualities.push(...FALLBACK_QUALITIES.filter(quality => quality < options.quality));
+  }
+
+  let data: Buffer;
+  let quality: number;
+  for (quality of qualities) {
+    data = await encoder.encode(source, { ...options, quality });
+    if (!maxBytes || data.length <= maxBytes) break;
+    console.log(`Export ${format} at quality ${quality} is ${data.length} bytes, over ${maxBytes}`);
+  }
+  console.log(`Exported ${format}: ${gif.length} -> ${data.length} bytes in ${Date.now() - start}ms`);
+
+  return { ...result, data, quality, fits: !maxBytes || data.length <= maxBytes };
+}
@@ -0,0 +1,35 @@
+export type ExportFormat = 'gif' | 'mp4' | 'webm' | 'apng' | 'webp' | 'avif' | 'png' | 'jpeg';
+
+export interface ExportOptions {
+  // Encoder quality, 1-100
+  quality: number;
+  // Scale down to fit within these; the original size is kept when unset
+  width?: number;
+  height?: number;
+  // Lower the quality (or, for GIF, run the size optimizer) until the file fits
+  maxBytes?: number;
+  // Cut longer animations short
+  maxDurationMs?: number;
+}
+
+export interface ExportEncoder {
+  format: ExportFormat;
+  contentType: string;
+  extension: string;
+  // False when the format can only hold the first frame with our encoders
+  animated: boolean;
+  // Whether quality changes the output size; lossless formats can't be shrunk by lowering it
+  lossy: boolean;
+  encode(gif: Buffer, options: ExportOptions): Promise<Buffer>;
+}
+
+export interface ExportResult {
+  data: Buffer;
+  format: ExportFormat;
+  contentType: string;
+  extension: string;
+  animated: boolean;
+  quality: number;
+  // False when maxBytes was given and couldn't be met
+  fits: boolean;
+}
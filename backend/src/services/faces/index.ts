@@ -0,0 +1,69 @@
+import sharp from 'sharp';
+import { FACE_DETECTOR } from '../../config.js';
+import { createRetinafaceDetector } from './retinaface.js';
+import { createSkinDetector } from './skin.js';
+import type { DetectedFace, FaceBox, FaceDetector } from './types.js';
+
+export * from './types.js';
+
+const factories: Record<string, () => FaceDetector> = {
+  retinaface: createRetinafaceDetector,
+  skin: createSkinDetector
+};
+
+// More than this in one photo is a crowd, not a choice
+const MAX_FACES = 10;
+// Crops keep some hair and background around the face so the swap model has context
+const CROP_PADDING = 0.5;
+
+let detector: FaceDetector | null | undefined;
+
+// Returns the detector selected by FACE_DETECTOR, created once per process, or null when detection is off
+export function getFaceDetector(): FaceDetector | null {
+  if (detector === undefined) {
+    if (FACE_DETECTOR === 'none') {
+      detector = null;
+    } else {
+      const factory = factories[FACE_DETECTOR];
+      if (!factory) {
+        throw new Error(`Unknown face detector "${FACE_DETECTOR}". Expected one of: ${[...Object.keys(factories), 'none'].join(', ')}`);
+      }
+      detector = factory();
+      console.log('Using face detector:', detector.name);
+    }
+  }
+  return detector;
+}
+
+async function cropFace(image: Buffer, box: FaceBox, width: number, height: number): Promise<string> {
+  const padX = Math.round(box.width * CROP_PADDING);
+  const padY = Math.round(box.height * CROP_PADDING);
+  const left = Math.max(0, box.x - padX);
+  const top = Math.max(0, box.y - padY);
+  const crop = await sharp(image)
+    .extract({
+      left,
+      top,
+      width: Math.min(width, box.x + box.width + padX) - left,
+      height: Math.min(height, box.y + box.height + padY) - top
+    })
+    .jpeg({ quality: 90 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${crop.toString('base64')}`;
+}
+
+// Find the faces in an upright photo, largest first, each with its own crop. Returns null when
+// detection is turned off, so callers can tell "no faces" from "didn't look".
+export async function detectFaces(image: Buffer): Promise<DetectedFace[] | null> {
+  const faceDetector = getFaceDetector();
+  if (!faceDetector) return null;
+
+  const start = Date.now();
+  const { width, height } = await sharp(image).metadata();
+  const boxes = (await faceDetector.detect(image))
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .slice(0, MAX_FACES);
+  console.log(`Detected ${boxes.length} faces with ${faceDetector.name} in ${Date.now() - start}ms`);
+
+  return Promise.all(boxes.map(async box => ({ ...box, imageData: await cropFace(image, box, width, height) })));
+}
@@ -0,0 +1,67 @@
+import sharp from 'sharp';
+import { readFile } from 'fs/promises';
+import { createRequire } from 'module';
+import * as ort from 'onnxruntime-web';
+import Retinaface from 'retinaface';
+import type { FaceBox, FaceDetector } from './types.js';
+
+// RetinaFace (MobileNet 0.25) as shipped in the retinaface package, run by ONNX Runtime's WebAssembly
+// backend, so there are no native binaries to install
+const MODEL_PATH = createRequire(import.meta.url).resolve('retinaface/mnet.25_v2.onnx');
+
+// The model takes a fixed square input; photos are scaled to fit and padded on the right and bottom
+const INPUT_SIZE = 640;
+const MIN_SCORE = 0.75;
+
+async function loadModel(): Promise<Retinaface> {
+  const start = Date.now();
+  const session = await ort.InferenceSession.create(await readFile(MODEL_PATH));
+  console.log(`Loaded face detection model in ${Date.now() - start}ms`);
+  return new Retinaface(session, ort.Tensor, INPUT_SIZE, INPUT_SIZE);
+}
+
+// Model input: RGBA pixels of the photo scaled into the top left of a black INPUT_SIZE square
+async function toInput(image: Buffer): Promise<{ pixels: { width: number; height: number; data: Uint8ClampedArray }; scale: number }> {
+  const { width, height } = await sharp(image).metadata();
+  const scale = Math.min(INPUT_SIZE / width, INPUT_SIZE / height);
+  const scaledWidth = Math.max(1, Math.round(width * scale));
+  const scaledHeight = Math.max(1, Math.round(height * scale));
+
+  const data = await sharp(image)
+    .resize(scaledWidth, scaledHeight, { fit: 'fill' })
+    .removeAlpha()
+    .extend({ right: INPUT_SIZE - scaledWidth, bottom: INPUT_SIZE - scaledHeight, background: '#000000' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer();
+  return { pixels: { width: INPUT_SIZE, height: INPUT_SIZE, data: new Uint8ClampedArray(data) }, scale };
+}
+
+// A neural detector that copes with any skin tone, black and white photos and busy backgrounds.
+// The model loads on first use, and detection takes a fraction of a second on one core.
+export function createRetinafaceDetector(): FaceDetector {
+  let model: Promise<Retinaface> | null = null;
+
+  return {
+    name: 'retinaface',
+    conclusive: true,
+
+    async detect(image: Buffer) {
+      if (!model) {
+        model = loadModel();
+        model.catch(() => { model = null; });
+      }
+      const retinaface = await model;
+      const { pixels, scale } = await toInput(image);
+      const faces = await retinaface.detect(pixels, scale, MIN_SCORE);
+
+      return faces.map(({ rect: [x0, y0, x1, y1], prob }) => ({
+        x: Math.round(x0),
+        y: Math.round(y0),
+        width: Math.round(x1 - x0),
+        height: Math.round(y1 - y0),
+        score: Math.round(prob * 100) / 100
+      }));
+    }
+  };
+}
@@ -0,0 +1,179 @@
+import sharp from 'sharp';
+import type { FaceBox, FaceDetector } from './types.js';
+
+// Photos are analysed at this size, which is plenty for faces big enough to swap
+const ANALYSIS_SIZE = 256;
+// Smallest face, as a fraction of the analysed image's area and in analysed pixels
+const MIN_FACE_AREA = 0.004;
+const MIN_FACE_SIDE = 10;
+// Faces are a little taller than wide. Taller skin regions carry on into the neck and are cut down,
+// wider ones are arms, hands or surfaces.
+const MAX_FACE_ASPECT = 1.5;
+const MIN_FACE_ASPECT = 0.75;
+// Share of the face box covered by skin; an ellipse covers about 0.78 and a flat surface nearly all of it
+const MIN_FILL = 0.4;
+const MAX_FILL = 0.95;
+// Eyes, brows and mouth show up as gaps in the skin across the middle of a face
+const MIN_FEATURES = 0.02;
+
+interface Region {
+  label: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  area: number;
+}
+
+// Chai and Ngan's YCbCr skin range, which holds across skin tones; very dark pixels are left out
+function skinMask(pixels: Buffer, width: number, height: number): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    const r = pixels[i * 3];
+    const g = pixels[i * 3 + 1];
+    const b = pixels[i * 3 + 2];
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+    const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+    mask[i] = y > 40 && cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173 ? 1 : 0;
+  }
+  return mask;
+}
+
+// One 3x3 erosion or dilation pass
+function morph(mask: Uint8Array, width: number, height: number, erode: boolean): Uint8Array {
+  const result = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let set = 0;
+      let total = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          total++;
+          set += mask[ny * width + nx];
+        }
+      }
+      result[y * width + x] = erode ? Number(set === total) : Number(set > 0);
+    }
+  }
+  return result;
+}
+
+// Label 4-connected skin regions
+function findRegions(mask: Uint8Array, width: number, height: number): { labels: Int32Array; regions: Region[] } {
+  const labels = new Int32Array(mask.length);
+  const regions: Region[] = [];
+  const stack = new Int32Array(mask.length);
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    const region: Region = { label: regions.length + 1, minX: width, minY: height, maxX: 0, maxY: 0, area: 0 };
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = region.label;
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      region.area++;
+      region.minX = Math.min(region.minX, x);
+      region.maxX = Math.max(region.maxX, x);
+      region.minY = Math.min(region.minY, y);
+      region.maxY = Math.max(region.maxY, y);
+
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+      for (const next of neighbours) {
+        if (next < 0 || next >= mask.length || !mask[next] || labels[next]) continue;
+        labels[next] = region.label;
+        stack[top++] = next;
+      }
+    }
+    regions.push(region);
+  }
+  return { labels, regions };
+}
+
+// Fraction of a rectangle not belonging to the region
+function gapRatio(labels: Int32Array, width: number, label: number, x0: number, y0: number, x1: number, y1: number): number {
+  let gaps = 0;
+  let total = 0;
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      total++;
+      if (labels[y * width + x] !== label) gaps++;
+    }
+  }
+  return total > 0 ? gaps / total : 0;
+}
+
+// Score a skin region as a face, or return null when its shape rules it out
+function scoreRegion(region: Region, labels: Int32Array, width: number, height: number): FaceBox | null {
+  const regionWidth = region.maxX - region.minX + 1;
+  const regionHeight = region.maxY - region.minY + 1;
+  if (region.area < MIN_FACE_AREA * width * height || regionWidth < MIN_FACE_SIDE || regionHeight < MIN_FACE_SIDE) {
+    return null;
+  }
+
+  const faceHeight = Math.min(regionHeight, Math.round(regionWidth * MAX_FACE_ASPECT));
+  if (faceHeight / regionWidth < MIN_FACE_ASPECT) return null;
+
+  const maxY = region.minY + faceHeight - 1;
+  const fill = 1 - gapRatio(labels, width, region.label, region.minX, region.minY, region.maxX, maxY);
+  if (fill < MIN_FILL || fill > MAX_FILL) return null;
+
+  // The band from the brows to just below the eyes, inside the cheeks
+  const features = gapRatio(
+    labels,
+    width,
+    region.label,
+    region.minX + Math.round(regionWidth * 0.15),
+    region.minY + Math.round(faceHeight * 0.2),
+    region.maxX - Math.round(regionWidth * 0.15),
+    region.minY + Math.round(faceHeight * 0.6)
+  );
+  if (features < MIN_FEATURES) return null;
+
+  const shape = Math.max(0, 1 - Math.abs(fill - 0.78) * 2);
+  const score = shape * Math.min(1, features / 0.1);
+  return { x: region.minX, y: region.minY, width: regionWidth, height: faceHeight, score: Math.round(score * 100) / 100 };
+}
+
+// Classic skin-region detection: find skin-coloured blobs, keep the face-shaped ones with gaps where
+// the eyes are. Fast and needs no model, but it misses black and white photos and faces against
+// skin-toned backgrounds, so it never decides on its own that a photo has no face. Expects an upright image.
+export function createSkinDetector(): FaceDetector {
+  return {
+    name: 'skin',
+    conclusive: false,
+
+    async detect(image: Buffer) {
+      const { width: originalWidth, height: originalHeight } = await sharp(image).metadata();
+      const { data, info } = await sharp(image)
+        .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      const { width, height } = info;
+      const mask = morph(morph(skinMask(data, width, height), width, height, true), width, height, false);
+      const { labels, regions } = findRegions(mask, width, height);
+
+      const scaleX = originalWidth / width;
+      const scaleY = originalHeight / height;
+      return regions
+        .map(region => scoreRegion(region, labels, width, height))
+        .filter((box): box is FaceBox => box !== null)
+        .map(box => ({
+          x: Math.round(box.x * scaleX),
+          y: Math.round(box.y * scaleY),
+          width: Math.round(box.width * scaleX),
+          height: Math.round(box.height * scaleY),
+          score: box.score
+        }));
+    }
+  };
+}
@@ -0,0 +1,22 @@
+// Pixel coordinates in the image the detector was given
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // 0-1 confidence, comparable only between faces from the same detector
+  score: number;
+}
+
+export interface DetectedFace extends FaceBox {
+  // JPEG data URL of the face with some surroundings, usable as a swap source on its own
+  imageData: string;
+}
+
+export interface FaceDetector {
+  name: string;
+  // Whether finding no face is trusted enough to turn a photo away; heuristics miss real faces, so
+  // their empty results are only passed on for the client to warn about
+  conclusive: boolean;
+  detect(image: Buffer): Promise<FaceBox[]>;
+}
@@ -0,0 +1,43 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+function getTempFilePath(extension: string): string {
+  return join(tmpdir(), `gifswap_${randomBytes(16).toString('hex')}.${extension}`);
+}
+
+// Run a file-based converter, always removing its temp files
+export async function withTempFiles(
+  input: Buffer,
+  inputExtension: string,
+  outputExtension: string,
+  convert: (inputPath: string, outputPath: string) => Promise<void>
+): Promise<Buffer> {
+  const inputPath = getTempFilePath(inputExtension);
+  const outputPath = getTempFilePath(outputExtension);
+  try {
+    await fs.writeFile(inputPath, input);
+    await convert(inputPath, outputPath);
+    return await fs.readFile(outputPath);
+  } finally {
+    await fs.unlink(inputPath).catch(() => {});
+    await fs.unlink(outputPath).catch(() => {});
+  }
+}
+
+export function runFfmpeg(inputPath: string, outputPath: string, inputOptions: string[], outputOptions: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .inputOptions(inputOptions)
+      .outputOptions(outputOptions)
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', reject)
+      .run();
+  });
+}
@@ -0,0 +1,31 @@
+import { CATALOG_SEED } from '../catalog/seed.js';
+import type { GifSearchPage, GifSearchProvider, GifSearchQuery, Media } from './types.js';
+
+// Searches the bundled catalog seed, so results are deterministic and need no API key or network
+export function createFixtureProvider(): GifSearchProvider {
+  return {
+    name: 'fixture',
+
+    isConfigured() {
+      return true;
+    },
+
+    async search({ q, limit, cursor }: GifSearchQuery): Promise<GifSearchPage> {
+      const words = q.toLowerCase().split(/\s+/).filter(Boolean);
+      const found = CATALOG_SEED.filter(entry => {
+        const haystack = [entry.title, entry.category, ...entry.tags].join(' ').toLowerCase();
+        return words.every(word => haystack.includes(word));
+      });
+
+      const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+      const items: Media[] = found.slice(offset, offset + limit).map(entry => ({
+        id: `fixture-${entry.id}`,
+        url: entry.sourceUrl,
+        title: entry.title,
+        isAnimated: (entry.type ?? 'gif') === 'gif',
+        type: entry.type ?? 'gif'
+      }));
+      return { items, next: offset + limit < found.length ? String(offset + limit) : null };
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import fetch from 'node-fetch';
+import { GIF_SEARCH_RATING, GIPHY_API_KEY } from '../../config.js';
+import type { GifSearchPage, GifSearchProvider, GifSearchQuery, Media } from './types.js';
+
+const GIPHY_SEARCH_URL = 'https://api.giphy.com/v1/gifs/search';
+
+// The parts of Giphy's search response we use; sizes come as strings
+interface GiphyRendition {
+  url?: string;
+  width?: string;
+  height?: string;
+}
+
+interface GiphyGif {
+  id: string;
+  title?: string;
+  images?: {
+    original?: GiphyRendition;
+    fixed_width?: GiphyRendition;
+  };
+}
+
+interface GiphySearchResponse {
+  data?: GiphyGif[];
+  pagination?: {
+    total_count?: number;
+    count?: number;
+  };
+}
+
+function toMedia(gif: GiphyGif): Media {
+  const original: GiphyRendition = gif.images?.original ?? {};
+  return {
+    id: `giphy-${gif.id}`,
+    url: original.url,
+    title: gif.title || 'GIF',
+    isAnimated: true,
+    type: 'gif',
+    previewUrl: gif.images?.fixed_width?.url ?? original.url,
+    width: original.width ? Number(original.width) : undefined,
+    height: original.height ? Number(original.height) : undefined
+  };
+}
+
+export function createGiphyProvider(): GifSearchProvider {
+  return {
+    name: 'giphy',
+
+    isConfigured() {
+      return !!GIPHY_API_KEY;
+    },
+
+    // Giphy pages by offset, which is what the cursor holds
+    async search({ q, limit, cursor }: GifSearchQuery): Promise<GifSearchPage> {
+      const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+      const params = new URLSearchParams({
+        api_key: GIPHY_API_KEY ?? '',
+        q,
+        limit: String(limit),
+        offset: String(offset),
+        rating: GIF_SEARCH_RATING
+      });
+      // node-fetch errors quote the URL, which carries the API key
+      const response = await fetch(`${GIPHY_SEARCH_URL}?${params}`).catch(error => {
+        throw new Error(`Giphy search request failed: ${error.code || 'network error'}`);
+      });
+      if (!response.ok) {
+        throw new Error(`Giphy search failed: ${response.status} ${response.statusText}`);
+      }
+
+      const json: unknown = await response.json();
+      const body = json as GiphySearchResponse;
+      const items = (body.data ?? []).map(toMedia).filter(media => media.url);
+      const total = body.pagination?.total_count ?? 0;
+      const nextOffset = offset + (body.pagination?.count ?? items.length);
+      return { items, next: nextOffset < total && items.length > 0 ? String(nextOffset) : null };
+    }
+  };
+}
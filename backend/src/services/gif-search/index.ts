@@ -0,0 +1,28 @@
+import { GIF_SEARCH_PROVIDER } from '../../config.js';
+import { createFixtureProvider } from './fixture.js';
+import { createGiphyProvider } from './giphy.js';
+import { createTenorProvider } from './tenor.js';
+import type { GifSearchProvider } from './types.js';
+
+export * from './types.js';
+
+const factories: Record<string, () => GifSearchProvider> = {
+  giphy: createGiphyProvider,
+  tenor: createTenorProvider,
+  fixture: createFixtureProvider,
+};
+
+let provider: GifSearchProvider | null = null;
+
+// Returns the provider selected by GIF_SEARCH_PROVIDER, created once per process
+export function getGifSearchProvider(): GifSearchProvider {
+  if (!provider) {
+    const factory = factories[GIF_SEARCH_PROVIDER];
+    if (!factory) {
+      throw new Error(`Unknown GIF search provider "${GIF_SEARCH_PROVIDER}". Expected one of: ${Object.keys(factories).join(', ')}`);
+    }
+    provider = factory();
+    console.log('Using GIF search provider:', provider.name);
+  }
+  return provider;
+}
@@ -0,0 +1,86 @@
+import fetch from 'node-fetch';
+import { GIF_SEARCH_RATING, TENOR_API_KEY } from '../../config.js';
+import type { GifSearchPage, GifSearchProvider, GifSearchQuery, Media } from './types.js';
+
+const TENOR_SEARCH_URL = 'https://tenor.googleapis.com/v2/search';
+const TENOR_CLIENT_KEY = 'gifswap';
+
+// Tenor's content filters, matched to the Giphy-style ratings we configure
+const CONTENT_FILTERS: Record<string, string> = {
+  g: 'high',
+  pg: 'medium',
+  'pg-13': 'low',
+  r: 'off'
+};
+
+// The parts of Tenor's search response we use
+interface TenorFormat {
+  url?: string;
+  dims?: [number, number];
+}
+
+interface TenorResult {
+  id: string;
+  title?: string;
+  content_description?: string;
+  media_formats?: {
+    gif?: TenorFormat;
+    tinygif?: TenorFormat;
+  };
+}
+
+interface TenorSearchResponse {
+  results?: TenorResult[];
+  next?: string;
+}
+
+function toMedia(result: TenorResult): Media {
+  const gif: TenorFormat = result.media_formats?.gif ?? {};
+  const [width, height] = gif.dims ?? [];
+  return {
+    id: `tenor-${result.id}`,
+    url: gif.url,
+    title: result.content_description || result.title || 'GIF',
+    isAnimated: true,
+    type: 'gif',
+    previewUrl: result.media_formats?.tinygif?.url ?? gif.url,
+    width,
+    height
+  };
+}
+
+export function createTenorProvider(): GifSearchProvider {
+  return {
+    name: 'tenor',
+
+    isConfigured() {
+      return !!TENOR_API_KEY;
+    },
+
+    // Tenor hands back its own position token for the next page
+    async search({ q, limit, cursor }: GifSearchQuery): Promise<GifSearchPage> {
+      const params = new URLSearchParams({
+        key: TENOR_API_KEY ?? '',
+        client_key: TENOR_CLIENT_KEY,
+        q,
+        limit: String(limit),
+        media_filter: 'gif,tinygif',
+        contentfilter: CONTENT_FILTERS[GIF_SEARCH_RATING] ?? 'medium'
+      });
+      if (cursor) params.set('pos', cursor);
+
+      // node-fetch errors quote the URL, which carries the API key
+      const response = await fetch(`${TENOR_SEARCH_URL}?${params}`).catch(error => {
+        throw new Error(`Tenor search request failed: ${error.code || 'network error'}`);
+      });
+      if (!response.ok) {
+        throw new Error(`Tenor search failed: ${response.status} ${response.statusText}`);
+      }
+
+      const json: unknown = await response.json();
+      const body = json as TenorSearchResponse;
+      const items = (body.results ?? []).map(toMedia).filter(media => media.url);
+      return { items, next: body.next || null };
+    }
+  };
+}
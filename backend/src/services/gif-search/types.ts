@@ -0,0 +1,32 @@
+// A selectable GIF or image, in the shape the gallery already uses for catalog memes
+export interface Media {
+  id: string;
+  // Full-size file, used as the swap target
+  url: string;
+  title: string;
+  isAnimated: boolean;
+  type: 'gif' | 'image';
+  // Smaller rendition for thumbnails, when the provider has one
+  previewUrl?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface GifSearchQuery {
+  q: string;
+  limit: number;
+  // Opaque position from a previous page's "next"
+  cursor?: string;
+}
+
+export interface GifSearchPage {
+  items: Media[];
+  // Pass as cursor to get the following page; null when there are no more results
+  next: string | null;
+}
+
+export interface GifSearchProvider {
+  name: string;
+  isConfigured(): boolean;
+  search(query: GifSearchQuery): Promise<GifSearchPage>;
+}
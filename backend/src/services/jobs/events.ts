@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+import type { SwapJob } from './types.js';
+
+type JobListener = (job: SwapJob) => void;
+
+const emitter = new EventEmitter();
+// One listener per open event stream, so there is no meaningful upper bound
+emitter.setMaxListeners(0);
+
+export function publishJobUpdate(job: SwapJob): void {
+  emitter.emit(`job:${job.id}`, job);
+  if (job.batchId) {
+    emitter.emit(`batch:${job.batchId}`, job);
+  }
+}
+
+// Returns an unsubscribe function
+export function subscribeToJob(jobId: string, listener: JobListener): () => void {
+  emitter.on(`job:${jobId}`, listener);
+  return () => emitter.off(`job:${jobId}`, listener);
+}
+
+export function subscribeToBatch(batchId: string, listener: JobListener): () => void {
+  emitter.on(`batch:${batchId}`, listener);
+  return () => emitter.off(`batch:${batchId}`, listener);
+}
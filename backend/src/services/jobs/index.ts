@@ -0,0 +1,93 @@
+import { randomUUID } from 'crypto';
+import type { SwapJobInput } from '../swap-providers/index.js';
+import { cancelJob, isTerminal, recordJob, requeueJob, submitJob } from './service.js';
+import { dequeueJob, enqueueJob, watchJob } from './runner.js';
+import { getBatchJobs } from './store.js';
+import type { BatchSummary, SwapJob } from './types.js';
+
+export * from './types.js';
+export { findJobByPredictionId, getBatchJobs, getJob, listJobs } from './store.js';
+export { adoptProviderOutput, applyPrediction, failJob, isTerminal, refreshJob } from './service.js';
+export { enqueueJob, getQueueStats, isWatched, resumeJobs, watchJob } from './runner.js';
+export { subscribeToBatch, subscribeToJob } from './events.js';
+export { isRetryableError } from './retry.js';
+
+// Submit straight to the provider so the caller gets a prediction ID back immediately
+export async function createSwapJob(input: SwapJobInput): Promise<SwapJob> {
+  const recorded = await recordJob(input);
+  // Cache hits are already finished
+  if (recorded.cacheHit) {
+    return recorded;
+  }
+  const job = await submitJob(recorded);
+  watchJob(job.id);
+  return job;
+}
+
+// Record every target of a batch and let the queue run them with bounded concurrency
+export async function createSwapBatch(targets: SwapJobInput[]): Promise<{ batchId: string; jobs: SwapJob[] }> {
+  const batchId = randomUUID();
+  const jobs: SwapJob[] = [];
+  for (const [batchIndex, input] of targets.entries()) {
+    jobs.push(await recordJob(input, { batchId, batchIndex }));
+  }
+  jobs.filter(job => !job.cacheHit).forEach(job => enqueueJob(job.id));
+  return { batchId, jobs };
+}
+
+export async function cancelSwapJob(job: SwapJob): Promise<SwapJob> {
+  dequeueJob(job.id);
+  return cancelJob(job);
+}
+
+// Cancel every unfinished job in a batch; one failing cancellation doesn't stop the rest
+export async function cancelSwapBatch(batchId: string): Promise<SwapJob[]> {
+  const jobs = await getBatchJobs(batchId);
+  jobs.filter(job => job.status === 'queued').forEach(job => dequeueJob(job.id));
+
+  return Promise.all(jobs.map(job =>
+    cancelJob(job).catch(error => {
+      console.error(`Failed to cancel job ${job.id}:`, error);
+      return job;
+    })
+  ));
+}
+
+// User-requested retry: resubmit a finished job with its stored inputs and a fresh retry budget
+export async function retrySwapJob(job: SwapJob): Promise<SwapJob> {
+  if (!isTerminal(job.status) || job.status === 'succeeded') {
+    return job;
+  }
+  job.attempts = 0;
+  await requeueJob(job);
+  enqueueJob(job.id);
+  return job;
+}
+
+export function summarizeBatch(batchId: string, jobs: SwapJob[]): BatchSummary {
+  const count = (status: string) => jobs.filter(job => job.status === status).length;
+  const completed = jobs.filter(job => isTerminal(job.status)).length;
+  const progress = jobs.reduce((sum, job) => sum + (job.progress ?? 0), 0) / jobs.length;
+
+  return {
+    batchId,
+    status: completed === jobs.length ? 'completed' : 'processing',
+    total: jobs.length,
+    completed,
+    succeeded: count('succeeded'),
+    failed: count('failed'),
+    canceled: count('canceled'),
+    progress: Math.round(progress),
+    jobs: jobs.map(job => ({
+      id: job.id,
+      index: job.batchIndex,
+      targetGifUrl: job.targetGifUrl,
+      targetType: job.targetType ?? 'gif',
+      status: job.status,
+      progress: job.progress ?? 0,
+      output: job.output,
+      error: job.error,
+      cacheHit: job.cacheHit ?? false
+    }))
+  };
+}
@@ -0,0 +1,42 @@
+import { SWAP_MAX_ATTEMPTS, SWAP_RETRY_BASE_DELAY_MS } from '../../config.js';
+import type { SwapJob } from './types.js';
+
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+// Problems with the inputs or our account won't go away by trying again
+const FATAL_ERROR_PATTERNS = [
+  /no face/i,
+  /face (was )?not (found|detected)/i,
+  /invalid (image|input|source|target)/i,
+  /unsupported/i,
+  /nsfw/i,
+  /authenticat|unauthori[sz]ed|forbidden|\b40[13]\b/i,
+  /insufficient credit|billing|payment/i,
+  /ENOENT/
+];
+
+// Capacity and connectivity problems on the provider side
+const RETRYABLE_ERROR_PATTERNS = [
+  /time(d)?[ -]?out|ETIMEDOUT/i,
+  /rate limit|too many requests|\b429\b/i,
+  /ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|network/i,
+  /\b50[0234]\b|internal server error|bad gateway|service unavailable/i,
+  /out of memory|CUDA|GPU/i,
+  /interrupted|preempted|worker (died|lost)/i
+];
+
+// Unrecognised errors are treated as fatal so we don't pay for the same failure repeatedly
+export function isRetryableError(message: string | null): boolean {
+  if (!message) return false;
+  if (FATAL_ERROR_PATTERNS.some(pattern => pattern.test(message))) return false;
+  return RETRYABLE_ERROR_PATTERNS.some(pattern => pattern.test(message));
+}
+
+export function shouldRetry(job: SwapJob): boolean {
+  return job.status === 'failed' && (job.attempts ?? 0) < SWAP_MAX_ATTEMPTS && isRetryableError(job.error);
+}
+
+// Exponential backoff: base, 2x base, 4x base... capped at one minute
+export function retryDelay(attempts: number): number {
+  return Math.min(SWAP_RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
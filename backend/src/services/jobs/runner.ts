@@ -0,0 +1,149 @@
+import { JOB_POLL_INTERVAL_MS, SWAP_CONCURRENCY, WEBHOOKS_ENABLED, WEBHOOK_FALLBACK_POLL_INTERVAL_MS } from '../../config.js';
+import { getSwapProvider } from '../swap-providers/index.js';
+import { getJob, listUnfinishedJobs } from './store.js';
+import { subscribeToJob } from './events.js';
+import { failJob, isTerminal, refreshJob, requeueJob, submitJob } from './service.js';
+import { retryDelay, shouldRetry } from './retry.js';
+import type { SwapJob } from './types.js';
+
+// Consecutive status check failures tolerated before a job is marked failed
+const MAX_POLL_ERRORS = 5;
+
+const pending: string[] = [];
+const active = new Set<string>();
+const retryTimers = new Map<string, NodeJS.Timeout>();
+
+// With webhooks the provider pushes updates, so polling only backs up lost deliveries
+const POLL_INTERVAL_MS = WEBHOOKS_ENABLED ? WEBHOOK_FALLBACK_POLL_INTERVAL_MS : JOB_POLL_INTERVAL_MS;
+
+// Resolves true as soon as the job is updated elsewhere (e.g. by a webhook), or false after the interval
+function waitForUpdate(jobId: string, ms: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const done = (updated: boolean) => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(updated);
+    };
+    const timer = setTimeout(() => done(false), ms);
+    const unsubscribe = subscribeToJob(jobId, () => done(true));
+  });
+}
+
+// Submit the job if it is still queued, then follow it until the provider reports a final status
+async function run(jobId: string): Promise<void> {
+  let job: SwapJob | null = null;
+  try {
+    job = await getJob(jobId);
+    if (!job) return;
+
+    if (job.status === 'queued') {
+      job = await submitJob(job);
+    }
+
+    let pollErrors = 0;
+    while (!isTerminal(job.status) && job.provider === getSwapProvider().name) {
+      // A pushed update is fresher than anything a poll would return
+      if (await waitForUpdate(jobId, POLL_INTERVAL_MS)) continue;
+      try {
+        job = await refreshJob(job);
+        pollErrors = 0;
+      } catch (error) {
+        pollErrors++;
+        console.error(`Status check ${pollErrors}/${MAX_POLL_ERRORS} failed for job ${jobId}:`, error);
+        if (pollErrors >= MAX_POLL_ERRORS) {
+          job = await failJob(job, error);
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`Job ${jobId} failed:`, error);
+  } finally {
+    active.delete(jobId);
+    if (job && shouldRetry(job)) {
+      await retryLater(job).catch(error => console.error(`Failed to schedule retry for job ${jobId}:`, error));
+    }
+    drain();
+  }
+}
+
+function scheduleAttempt(jobId: string, delayMs: number): void {
+  const timer = setTimeout(() => {
+    retryTimers.delete(jobId);
+    enqueueJob(jobId);
+  }, delayMs);
+  retryTimers.set(jobId, timer);
+}
+
+async function retryLater(job: SwapJob): Promise<void> {
+  const delayMs = retryDelay(job.attempts);
+  console.log(`Retrying job ${job.id} in ${delayMs}ms (attempt ${job.attempts + 1}) after error:`, job.error);
+  await requeueJob(job, new Date(Date.now() + delayMs));
+  scheduleAttempt(job.id, delayMs);
+}
+
+function drain(): void {
+  while (active.size < SWAP_CONCURRENCY && pending.length > 0) {
+    const jobId = pending.shift();
+    active.add(jobId);
+    run(jobId);
+  }
+}
+
+// Queue a recorded job; at most SWAP_CONCURRENCY jobs run against the provider at once
+export function enqueueJob(jobId: string): void {
+  pending.push(jobId);
+  drain();
+}
+
+// Drop a job that hasn't started yet, including one waiting out a retry delay; returns whether it was waiting
+export function dequeueJob(jobId: string): boolean {
+  const timer = retryTimers.get(jobId);
+  if (timer) {
+    clearTimeout(timer);
+    retryTimers.delete(jobId);
+    return true;
+  }
+
+  const index = pending.indexOf(jobId);
+  if (index === -1) return false;
+  pending.splice(index, 1);
+  return true;
+}
+
+// Follow a job that was already submitted outside the queue
+export function watchJob(jobId: string): void {
+  if (active.has(jobId)) return;
+  active.add(jobId);
+  run(jobId);
+}
+
+// Watched jobs are kept current by the runner, so readers can serve them from the store
+export function isWatched(jobId: string): boolean {
+  return active.has(jobId);
+}
+
+export function getQueueStats(): { pending: number; active: number; concurrency: number } {
+  return { pending: pending.length, active: active.size, concurrency: SWAP_CONCURRENCY };
+}
+
+// Pick up jobs left unfinished by a previous server process
+export async function resumeJobs(): Promise<void> {
+  const unfinished = await listUnfinishedJobs();
+  if (unfinished.length === 0) return;
+
+  console.log('Resuming', unfinished.length, 'unfinished jobs');
+  unfinished
+    .filter(job => job.status !== 'queued')
+    .forEach(job => watchJob(job.id));
+  unfinished
+    .filter(job => job.status === 'queued')
+    .forEach(job => {
+      // Retries keep their backoff across restarts
+      const delayMs = job.nextAttemptAt ? new Date(job.nextAttemptAt).getTime() - Date.now() : 0;
+      if (delayMs > 0) {
+        scheduleAttempt(job.id, delayMs);
+      } else {
+        enqueueJob(job.id);
+      }
+    });
+}
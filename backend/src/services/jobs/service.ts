@@ -0,0 +1,244 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { PUBLIC_BASE_URL, WEBHOOKS_ENABLED } from '../../config.js';
+import {
+  detectTargetType,
+  getSwapProvider,
+  modelVersionFor,
+  TERMINAL_STATUSES,
+  type SwapJobInput,
+  type SwapPrediction
+} from '../swap-providers/index.js';
+import { lookupCachedResult, resultCacheKey, storeCachedResult } from '../cache/index.js';
+import { downloadFile, saveMedia } from '../media.js';
+import { saveJob } from './store.js';
+import { publishJobUpdate } from './events.js';
+import { loadSourceImage, saveSourceImage } from './sources.js';
+import type { JobStatus, SwapJob } from './types.js';
+
+export interface RecordJobOptions {
+  batchId?: string;
+  batchIndex?: number;
+}
+
+export function isTerminal(status: JobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status as SwapPrediction['status']);
+}
+
+// Models typically log tqdm-style "42%|####" lines; otherwise fall back to a rough estimate per status
+function estimateProgress(status: JobStatus, logs: string | null): number {
+  if (isTerminal(status)) return 100;
+  const percentages = logs?.match(/(\d{1,3})%/g);
+  if (percentages && percentages.length > 0) {
+    return Math.min(99, parseInt(percentages[percentages.length - 1], 10));
+  }
+  if (status === 'processing') return 10;
+  if (status === 'starting') return 5;
+  return 0;
+}
+
+// Every change goes through here so event stream subscribers see it
+async function persistJob(job: SwapJob): Promise<SwapJob> {
+  job.progress = estimateProgress(job.status, job.logs);
+  await saveJob(job);
+  publishJobUpdate(job);
+  return job;
+}
+
+function setStatus(job: SwapJob, status: JobStatus): void {
+  if (job.status === status) return;
+  const now = new Date().toISOString();
+  job.status = status;
+  job.statusHistory.push({ status, at: now });
+  job.updatedAt = now;
+  if (isTerminal(status)) {
+    job.completedAt = now;
+  }
+}
+
+export async function failJob(job: SwapJob, error: unknown): Promise<SwapJob> {
+  job.error = error instanceof Error ? error.message : String(error || 'Unknown error');
+  setStatus(job, 'failed');
+  return persistJob(job);
+}
+
+// Merge a provider prediction into the stored job, recording any status transition
+export async function applyPrediction(job: SwapJob, prediction: SwapPrediction): Promise<SwapJob> {
+  // Late or duplicate deliveries (e.g. a webhook after polling saw completion) must not reopen a job
+  if (isTerminal(job.status)) {
+    return job;
+  }
+  const before = JSON.stringify([job.predictionId, job.status, job.output, job.error, job.logs]);
+  job.predictionId = prediction.id;
+  job.output = prediction.output ?? job.output;
+  job.error = prediction.error ?? job.error;
+  job.logs = prediction.logs ?? job.logs;
+  // Repeated polls usually return the same state; only store and announce real changes
+  if (JSON.stringify([job.predictionId, prediction.status, job.output, job.error, job.logs]) === before) {
+    return job;
+  }
+  job.updatedAt = new Date().toISOString();
+
+  if (prediction.status === 'succeeded' && prediction.output) {
+    await keepOutput(job, prediction.output);
+    // A webhook and a poll can both deliver completion; only the first one finishes the job
+    if (isTerminal(job.status)) {
+      return job;
+    }
+  }
+  setStatus(job, prediction.status);
+  return persistJob(job);
+}
+
+// Image models answer in PNG, JPEG or WebP; WebP is stored as PNG so every still has a widely supported type
+async function normalizeOutput(job: SwapJob, data: Buffer): Promise<{ data: Buffer; contentType: string }> {
+  if (job.targetType !== 'image') {
+    return { data, contentType: 'image/gif' };
+  }
+  const { format } = await sharp(data).metadata();
+  if (format === 'png' || format === 'jpeg') {
+    return { data, contentType: `image/${format}` };
+  }
+  return { data: await sharp(data).png().toBuffer(), contentType: 'image/png' };
+}
+
+// Copy the provider's output into our storage before announcing success, so clients only ever see
+// the stable media link. If that fails the provider URL is still usable for a while.
+async function keepOutput(job: SwapJob, outputUrl: string): Promise<void> {
+  try {
+    const { data, contentType } = await normalizeOutput(job, await downloadFile(outputUrl));
+    job.providerOutput = outputUrl;
+    job.output = await saveMedia(job.id, data, contentType);
+
+    const modelVersion = modelVersionFor(getSwapProvider(), job.targetType);
+    storeCachedResult(job.sourceHash, job.targetGifUrl, modelVersion, data, contentType)
+      .then(entry => console.log(`Cached result ${entry.key} for job ${job.id}`))
+      .catch(error => console.error(`Failed to cache result for job ${job.id}:`, error));
+  } catch (error) {
+    console.error(`Failed to store output for job ${job.id}, keeping provider URL:`, error);
+  }
+}
+
+// Jobs that finished before outputs were stored locally only have the provider URL; copy it over
+// while it may still be valid
+export async function adoptProviderOutput(job: SwapJob): Promise<SwapJob> {
+  if (job.status !== 'succeeded' || !job.output || job.providerOutput) {
+    return job;
+  }
+  await keepOutput(job, job.output);
+  return job.providerOutput ? persistJob(job) : job;
+}
+
+// Store the job as queued, keeping the source photo on disk so it can be submitted later.
+// When the same face, target and model have been swapped before, the job is recorded as already succeeded.
+export async function recordJob(input: SwapJobInput, { batchId, batchIndex }: RecordJobOptions = {}): Promise<SwapJob> {
+  const { hash, mimeType } = await saveSourceImage(input.sourceImageData);
+  const provider = getSwapProvider();
+  const targetType = input.targetType ?? detectTargetType(input.targetGifUrl);
+  const modelVersion = modelVersionFor(provider, targetType);
+  const cached = await lookupCachedResult(hash, input.targetGifUrl, modelVersion);
+  const now = new Date().toISOString();
+
+  const job: SwapJob = {
+    id: randomUUID(),
+    provider: provider.name,
+    predictionId: null,
+    batchId: batchId ?? null,
+    batchIndex: batchIndex ?? null,
+    sourceHash: hash,
+    sourceMimeType: mimeType,
+    targetGifUrl: input.targetGifUrl,
+    targetType,
+    status: 'queued',
+    statusHistory: [{ status: 'queued', at: now }],
+    attempts: 0,
+    nextAttemptAt: null,
+    progress: 0,
+    logs: null,
+    output: null,
+    providerOutput: null,
+    error: null,
+    cacheKey: resultCacheKey(hash, input.targetGifUrl, modelVersion),
+    cacheHit: false,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null
+  };
+
+  if (cached) {
+    console.log(`Result cache hit ${cached.entry.key} for ${input.targetGifUrl}`);
+    job.output = await saveMedia(job.id, cached.data, cached.entry.contentType);
+    job.cacheHit = true;
+    setStatus(job, 'succeeded');
+  }
+  return persistJob(job);
+}
+
+// Hand a queued job to the provider, asking it to call us back when webhooks are enabled
+export async function submitJob(job: SwapJob): Promise<SwapJob> {
+  job.attempts = (job.attempts ?? 0) + 1;
+  job.nextAttemptAt = null;
+  try {
+    const sourceImageData = await loadSourceImage(job.sourceHash, job.sourceMimeType);
+    const provider = getSwapProvider();
+    const prediction = await provider.createJob(
+      { sourceImageData, targetGifUrl: job.targetGifUrl, targetType: job.targetType ?? 'gif' },
+      { webhookUrl: WEBHOOKS_ENABLED ? `${PUBLIC_BASE_URL}/api/webhooks/provider` : null }
+    );
+
+    // Canceled while the provider was accepting it; stop the prediction so it isn't billed
+    if (job.status === 'canceled') {
+      job.predictionId = prediction.id;
+      await provider.cancel(prediction.id).catch(error => console.error('Failed to cancel late prediction:', error));
+      return persistJob(job);
+    }
+    return await applyPrediction(job, prediction);
+  } catch (error) {
+    await failJob(job, error);
+    throw error;
+  }
+}
+
+// Fetch the latest provider state for an unfinished job; finished jobs are served from the store
+export async function refreshJob(job: SwapJob): Promise<SwapJob> {
+  const provider = getSwapProvider();
+  // Jobs created under a different provider can't be looked up by this one
+  if (isTerminal(job.status) || !job.predictionId || job.provider !== provider.name) {
+    return job;
+  }
+  const prediction = await provider.getStatus(job.predictionId);
+  return applyPrediction(job, prediction);
+}
+
+// Stop the provider prediction if there is one, and make sure the job ends up canceled
+export async function cancelJob(job: SwapJob): Promise<SwapJob> {
+  if (isTerminal(job.status)) {
+    return job;
+  }
+
+  const provider = getSwapProvider();
+  if (job.predictionId && job.provider === provider.name) {
+    const prediction = await provider.cancel(job.predictionId);
+    await applyPrediction(job, prediction);
+  }
+
+  // Queued jobs have nothing to cancel remotely; the provider may also report a status that lags behind
+  if (!isTerminal(job.status)) {
+    setStatus(job, 'canceled');
+    await persistJob(job);
+  }
+  return job;
+}
+
+// Put a finished job back in the queue for another attempt with the same stored inputs
+export async function requeueJob(job: SwapJob, nextAttemptAt: Date | null = null): Promise<SwapJob> {
+  job.predictionId = null;
+  job.output = null;
+  job.providerOutput = null;
+  job.error = null;
+  job.logs = null;
+  job.completedAt = null;
+  job.nextAttemptAt = nextAttemptAt ? nextAttemptAt.toISOString() : null;
+  setStatus(job, 'queued');
+  return persistJob(job);
+}
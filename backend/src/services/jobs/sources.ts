@@ -0,0 +1,38 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { DATA_DIR } from '../../config.js';
+
+// Source photos are kept on disk by content hash so queued and resumed jobs don't hold them in memory
+const SOURCES_DIR = join(DATA_DIR, 'sources');
+
+export function parseDataUrl(dataUrl: string): { mimeType: string; data: Buffer } {
+  const match = dataUrl.match(/^data:([^;,]+)(;base64)?,/);
+  const mimeType = match ? match[1] : 'application/octet-stream';
+  const data = Buffer.from(dataUrl.substring(dataUrl.indexOf(',') + 1), 'base64');
+  return { mimeType, data };
+}
+
+// Hash the decoded image bytes so the same photo hashes identically however it was encoded in transit
+export function hashSourceImage(sourceImageData: string): string {
+  return createHash('sha256').update(parseDataUrl(sourceImageData).data).digest('hex');
+}
+
+export async function saveSourceImage(sourceImageData: string): Promise<{ hash: string; mimeType: string }> {
+  const { mimeType, data } = parseDataUrl(sourceImageData);
+  const hash = createHash('sha256').update(data).digest('hex');
+  const filePath = join(SOURCES_DIR, hash);
+
+  await fs.mkdir(SOURCES_DIR, { recursive: true });
+  // Same hash means same bytes, so an existing file never needs rewriting
+  await fs.writeFile(filePath, data, { flag: 'wx' }).catch(error => {
+    if (error.code !== 'EEXIST') throw error;
+  });
+
+  return { hash, mimeType };
+}
+
+export async function loadSourceImage(hash: string, mimeType: string): Promise<string> {
+  const data = await fs.readFile(join(SOURCES_DIR, hash));
+  return `data:${mimeType};base64,${data.toString('base64')}`;
+}
@@ -0,0 +1,43 @@
+import { TERMINAL_STATUSES } from '../swap-providers/index.js';
+import { createJsonCollection } from '../json-collection.js';
+import type { JobListOptions, SwapJob } from './types.js';
+
+const jobs = createJsonCollection<SwapJob>('jobs.json', job => job.id);
+
+export async function saveJob(job: SwapJob): Promise<SwapJob> {
+  return jobs.set(job);
+}
+
+export async function getJob(id: string): Promise<SwapJob | null> {
+  return jobs.get(id);
+}
+
+export async function findJobByPredictionId(predictionId: string): Promise<SwapJob | null> {
+  return (await jobs.all()).find(job => job.predictionId === predictionId) || null;
+}
+
+// Newest first
+export async function listJobs({ status, batchId, limit = 50, offset = 0 }: JobListOptions = {}): Promise<{ jobs: SwapJob[]; total: number }> {
+  const matching = (await jobs.all())
+    .filter(job => !status || job.status === status)
+    .filter(job => !batchId || job.batchId === batchId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return {
+    jobs: matching.slice(offset, offset + limit),
+    total: matching.length
+  };
+}
+
+// In the order the targets were submitted
+export async function getBatchJobs(batchId: string): Promise<SwapJob[]> {
+  return (await jobs.all())
+    .filter(job => job.batchId === batchId)
+    .sort((a, b) => (a.batchIndex ?? 0) - (b.batchIndex ?? 0));
+}
+
+// Oldest first, so resumed jobs keep their original queue order
+export async function listUnfinishedJobs(): Promise<SwapJob[]> {
+  return (await jobs.all())
+    .filter(job => !TERMINAL_STATUSES.includes(job.status as typeof TERMINAL_STATUSES[number]))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
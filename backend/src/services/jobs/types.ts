@@ -0,0 +1,71 @@
+import type { SwapStatus, SwapTargetType } from '../swap-providers/index.js';
+
+// "queued" covers the time between recording a job and the provider accepting it
+export type JobStatus = 'queued' | SwapStatus;
+
+export interface JobStatusChange {
+  status: JobStatus;
+  at: string;
+}
+
+export interface SwapJob {
+  id: string;
+  provider: string;
+  predictionId: string | null;
+  batchId: string | null;
+  batchIndex: number | null;
+  sourceHash: string;
+  sourceMimeType: string;
+  targetGifUrl: string;
+  // Missing on jobs recorded before still images were supported, which were all GIFs
+  targetType?: SwapTargetType;
+  status: JobStatus;
+  statusHistory: JobStatusChange[];
+  // Number of times the job has been submitted to the provider
+  attempts: number;
+  // When a failed job is due to be resubmitted
+  nextAttemptAt: string | null;
+  // Percentage estimate, parsed from provider logs where possible
+  progress: number;
+  logs: string | null;
+  // Our stable /media link once the output has been stored, otherwise the provider's URL
+  output: string | null;
+  // The provider's original (expiring) output URL
+  providerOutput: string | null;
+  error: string | null;
+  // Result cache key for this job's inputs, and whether the output was served from the cache
+  cacheKey: string | null;
+  cacheHit: boolean;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface JobListOptions {
+  status?: JobStatus;
+  batchId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface BatchSummary {
+  batchId: string;
+  status: 'processing' | 'completed';
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  canceled: number;
+  progress: number;
+  jobs: {
+    id: string;
+    index: number | null;
+    targetGifUrl: string;
+    targetType: SwapTargetType;
+    status: JobStatus;
+    progress: number;
+    output: string | null;
+    error: string | null;
+    cacheHit: boolean;
+  }[];
+}
@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { DATA_DIR } from '../config.js';
+
+// A keyed set of records kept in memory and mirrored to a JSON file under DATA_DIR
+export interface JsonCollection<T> {
+  all(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  set(item: T): Promise<T>;
+  delete(id: string): Promise<boolean>;
+}
+
+export function createJsonCollection<T>(fileName: string, idOf: (item: T) => string): JsonCollection<T> {
+  const filePath = join(DATA_DIR, fileName);
+  const items = new Map<string, T>();
+  let loaded: Promise<void> | null = null;
+  let writeChain: Promise<void> = Promise.resolve();
+
+  const load = async () => {
+    try {
+      const stored: T[] = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      stored.forEach(item => items.set(idOf(item), item));
+      console.log('Loaded', items.size, 'records from', filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load ${fileName}, starting empty:`, error);
+      }
+    }
+  };
+
+  const ensureLoaded = () => {
+    if (!loaded) {
+      loaded = load();
+    }
+    return loaded;
+  };
+
+  // Writes are chained so concurrent updates never interleave on disk
+  const persist = () => {
+    writeChain = writeChain.then(async () => {
+      const tempFile = `${filePath}.tmp`;
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      await fs.writeFile(tempFile, JSON.stringify([...items.values()], null, 2));
+      await fs.rename(tempFile, filePath);
+    }).catch(error => {
+      console.error(`Failed to persist ${fileName}:`, error);
+    });
+    return writeChain;
+  };
+
+  return {
+    async all() {
+      await ensureLoaded();
+      return [...items.values()];
+    },
+
+    async get(id) {
+      await ensureLoaded();
+      return items.get(id) || null;
+    },
+
+    async set(item) {
+      await ensureLoaded();
+      items.set(idOf(item), item);
+      await persist();
+      return item;
+    },
+
+    async delete(id) {
+      await ensureLoaded();
+      const existed = items.delete(id);
+      if (existed) {
+        await persist();
+      }
+      return existed;
+    }
+  };
+}
@@ -0,0 +1,86 @@
+import fetch from 'node-fetch';
+import { PUBLIC_BASE_URL } from '../config.js';
+import { getBlobStore } from './storage/index.js';
+
+// Finished swap outputs are copied into our own storage and served from /media/<id>.gif (or .png/.jpg
+// for stills), because provider delivery URLs expire
+const MEDIA_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+// GIFs first, since nearly everything stored is one
+export const MEDIA_TYPES: Record<string, string> = {
+  gif: 'image/gif',
+  png: 'image/png',
+  jpg: 'image/jpeg'
+};
+
+export interface StoredMedia {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+const mediaKey = (id: string, extension = 'gif') => `media/${id}.${extension}`;
+
+export function mediaExtension(contentType: string): string {
+  return Object.keys(MEDIA_TYPES).find(extension => MEDIA_TYPES[extension] === contentType) ?? 'gif';
+}
+
+export function mediaUrl(id: string, contentType = 'image/gif'): string {
+  return `${PUBLIC_BASE_URL}/media/${id}.${mediaExtension(contentType)}`;
+}
+
+export function isMediaId(id: string): boolean {
+  return MEDIA_ID_PATTERN.test(id);
+}
+
+export async function saveMedia(id: string, data: Buffer, contentType = 'image/gif'): Promise<string> {
+  await getBlobStore().put(mediaKey(id, mediaExtension(contentType)), data, contentType);
+  return mediaUrl(id, contentType);
+}
+
+// An ID is only ever stored under one extension
+export async function findMedia(id: string): Promise<StoredMedia | null> {
+  if (!isMediaId(id)) return null;
+  for (const [extension, contentType] of Object.entries(MEDIA_TYPES)) {
+    const data = await getBlobStore().get(mediaKey(id, extension));
+    if (data) return { data, contentType, extension };
+  }
+  return null;
+}
+
+export async function loadMedia(id: string): Promise<Buffer | null> {
+  return (await findMedia(id))?.data ?? null;
+}
+
+// Accepts a bare media ID or one of our own /media/<id>.<ext> links, wherever it is hosted
+export function resolveMediaId(urlOrId: string): string | null {
+  if (isMediaId(urlOrId)) return urlOrId;
+  try {
+    const match = new URL(urlOrId).pathname.match(/^\/media\/([^/]+)\.(?:gif|png|jpg)$/);
+    return match && isMediaId(match[1]) ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function downloadFile(url: string): Promise<Buffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download file: ${response.statusText}`);
+  }
+  return response.buffer();
+}
+
+// Read a GIF from local media when the reference points at it, otherwise download it
+export async function loadGif(urlOrId: string): Promise<Buffer> {
+  const id = resolveMediaId(urlOrId);
+  if (id) {
+    const data = await loadMedia(id);
+    if (data) return data;
+    // A bare ID has nothing to fall back to
+    if (id === urlOrId) {
+      throw new Error(`Media ${id} not found`);
+    }
+  }
+  return downloadFile(urlOrId);
+}
@@ -0,0 +1,281 @@
+import sharp from 'sharp';
+import type { OptimizeAttempt, OptimizeLimits, OptimizeParams, OptimizeResult, QualityEstimate } from './types.js';
+
+export * from './types.js';
+
+interface SearchTier {
+  colours: number;
+  dither: number;
+  frameStep: number;
+  // How far the width may shrink before the next tier is tried instead
+  minScale: number;
+}
+
+// Ordered from least to most visible loss. Within a tier only the width is searched.
+const TIERS: SearchTier[] = [
+  { colours: 256, dither: 1, frameStep: 1, minScale: 0.6 },
+  { colours: 256, dither: 0, frameStep: 1, minScale: 0.6 },
+  { colours: 128, dither: 0, frameStep: 1, minScale: 0.5 },
+  { colours: 64, dither: 0, frameStep: 1, minScale: 0.5 },
+  { colours: 64, dither: 0, frameStep: 2, minScale: 0.4 },
+  { colours: 32, dither: 0, frameStep: 3, minScale: 0 }
+];
+
+const MIN_WIDTH = 64;
+const MAX_ENCODES = 16;
+// Stop searching once the output uses this much of the budget
+const TARGET_FILL = 0.92;
+// Widths closer than this aren't worth another encode
+const WIDTH_TOLERANCE = 4;
+// Browsers play GIF frames with no delay at 100ms
+const DEFAULT_FRAME_DELAY_MS = 100;
+const QUALITY_SAMPLE_FRAMES = 6;
+const QUALITY_MAX_WIDTH = 480;
+
+interface DecodedGif {
+  // RGBA frames stacked vertically
+  raw: Buffer;
+  width: number;
+  frameHeight: number;
+  pages: number;
+  delays: number[];
+  loop: number;
+}
+
+interface Encoded {
+  data: Buffer;
+  params: OptimizeParams;
+}
+
+function frameDelays(metadata: sharp.Metadata): number[] {
+  return Array.from({ length: metadata.pages || 1 }, (_, i) => metadata.delay?.[i] || DEFAULT_FRAME_DELAY_MS);
+}
+
+// Frames starting after maxDurationMs are dropped and the last one kept is shortened to end on time
+async function decodeGif(gif: Buffer, maxDurationMs?: number | null): Promise<DecodedGif> {
+  const image = sharp(gif, { animated: true });
+  const metadata = await image.metadata();
+  const width = metadata.width;
+  const frameHeight = metadata.pageHeight || metadata.height;
+  const delays: number[] = [];
+  let elapsed = 0;
+  for (const delay of frameDelays(metadata)) {
+    if (maxDurationMs && elapsed >= maxDurationMs) break;
+    delays.push(maxDurationMs ? Math.min(delay, maxDurationMs - elapsed) : delay);
+    elapsed += delay;
+  }
+
+  const raw = await image.ensureAlpha().raw().toBuffer();
+  return {
+    raw: raw.subarray(0, width * frameHeight * 4 * delays.length),
+    width,
+    frameHeight,
+    pages: delays.length,
+    delays,
+    loop: metadata.loop ?? 0
+  };
+}
+
+// Largest width that keeps both dimensions within the limits
+function boundedWidth(width: number, height: number, { maxWidth, maxHeight }: OptimizeLimits): number {
+  let bounded = width;
+  if (maxWidth) bounded = Math.min(bounded, maxWidth);
+  if (maxHeight) bounded = Math.min(bounded, Math.floor((width * maxHeight) / height));
+  return Math.max(1, bounded);
+}
+
+function frameAt(source: DecodedGif, index: number): Buffer {
+  const frameBytes = source.width * source.frameHeight * 4;
+  return source.raw.subarray(index * frameBytes, (index + 1) * frameBytes);
+}
+
+// Dropped frames hand their delay to the frame kept before them, so playback speed is unchanged
+async function encode(source: DecodedGif, { width, frameStep, colours, dither }: Omit<OptimizeParams, 'height'>): Promise<Encoded> {
+  const kept: number[] = [];
+  const delays: number[] = [];
+  for (let i = 0; i < source.pages; i += frameStep) {
+    kept.push(i);
+    delays.push(source.delays.slice(i, i + frameStep).reduce((total, delay) => total + delay, 0));
+  }
+
+  // Frames are resized one by one; resizing the whole strip would let them drift across page boundaries
+  const height = Math.max(1, Math.round((source.frameHeight * width) / source.width));
+  const frames = await Promise.all(
+    kept.map(index =>
+      width < source.width
+        ? sharp(frameAt(source, index), { raw: { width: source.width, height: source.frameHeight, channels: 4 } })
+            .resize(width, height, { fit: 'fill' })
+            .raw()
+            .toBuffer()
+        : frameAt(source, index)
+    )
+  );
+
+  const data = await sharp(Buffer.concat(frames), { raw: { width, height: height * kept.length, channels: 4, pageHeight: height } })
+    .gif({ colours, dither, delay: delays, loop: source.loop })
+    .toBuffer();
+  return { data, params: { width, height, frameStep, colours, dither } };
+}
+
+function startTimes(delays: number[]): number[] {
+  let time = 0;
+  return delays.map(delay => {
+    const start = time;
+    time += delay;
+    return start;
+  });
+}
+
+// Compare sampled original frames with whatever the output shows at the same moment, at the original size,
+// so lost resolution, colours and dropped frames all count
+async function estimateQuality(source: DecodedGif, output: Buffer): Promise<QualityEstimate> {
+  const result = await decodeGif(output);
+  const compareWidth = Math.min(source.width, QUALITY_MAX_WIDTH);
+  const compareHeight = Math.max(1, Math.round((source.frameHeight * compareWidth) / source.width));
+  const toRgb = (frame: Buffer, { width, frameHeight }: DecodedGif) =>
+    sharp(frame, { raw: { width, height: frameHeight, channels: 4 } })
+      .resize(compareWidth, compareHeight, { fit: 'fill' })
+      .flatten({ background: '#ffffff' })
+      .raw()
+      .toBuffer();
+
+  const sourceStarts = startTimes(source.delays);
+  const resultStarts = startTimes(result.delays);
+  const samples = new Set(
+    Array.from({ length: Math.min(QUALITY_SAMPLE_FRAMES, source.pages) }, (_, i) =>
+      Math.floor((i * (source.pages - 1)) / Math.max(1, QUALITY_SAMPLE_FRAMES - 1))
+    )
+  );
+
+  let squaredError = 0;
+  let count = 0;
+  for (const index of samples) {
+    // Identical neighbouring frames may have been merged, so match by time rather than position
+    const shown = resultStarts.filter(start => start <= sourceStarts[index]).length - 1;
+    const [expected, actual] = await Promise.all([
+      toRgb(frameAt(source, index), source),
+      toRgb(frameAt(result, Math.max(0, shown)), result)
+    ]);
+    for (let i = 0; i < expected.length; i++) {
+      const diff = expected[i] - actual[i];
+      squaredError += diff * diff;
+    }
+    count += expected.length;
+  }
+
+  const mse = squaredError / Math.max(1, count);
+  const psnr = mse === 0 ? 100 : Math.min(100, 10 * Math.log10((255 * 255) / mse));
+  return {
+    psnr: Math.round(psnr * 10) / 10,
+    score: Math.max(0, Math.min(100, Math.round(((psnr - 20) / 25) * 100)))
+  };
+}
+
+// Cut an animation short without otherwise touching it
+export async function trimGif(gif: Buffer, maxDurationMs: number): Promise<Buffer> {
+  const metadata = await sharp(gif, { animated: true }).metadata();
+  if (frameDelays(metadata).reduce((total, delay) => total + delay, 0) <= maxDurationMs) {
+    return gif;
+  }
+  const source = await decodeGif(gif, maxDurationMs);
+  return sharp(source.raw, {
+    raw: { width: source.width, height: source.frameHeight * source.pages, channels: 4, pageHeight: source.frameHeight }
+  })
+    .gif({ delay: source.delays, loop: source.loop })
+    .toBuffer();
+}
+
+// Find the least lossy settings that land just under the byte budget: try each tier at the largest
+// allowed width, then narrow it towards the budget before giving up on the tier
+export async function optimizeGif(gif: Buffer, limits: OptimizeLimits): Promise<OptimizeResult> {
+  const budgetBytes = limits.maxBytes;
+  const metadata = await sharp(gif, { animated: true }).metadata();
+  const duration = frameDelays(metadata).reduce((total, delay) => total + delay, 0);
+  const withinLimits =
+    boundedWidth(metadata.width, metadata.pageHeight || metadata.height, limits) === metadata.width &&
+    (!limits.maxDurationMs || duration <= limits.maxDurationMs);
+
+  if (gif.length <= budgetBytes && withinLimits) {
+    return {
+      data: gif,
+      optimized: false,
+      fits: true,
+      budgetBytes,
+      originalBytes: gif.length,
+      params: null,
+      quality: { psnr: 100, score: 100 },
+      attempts: []
+    };
+  }
+
+  const source = await decodeGif(gif, limits.maxDurationMs);
+  const fullWidth = boundedWidth(source.width, source.frameHeight, limits);
+  const attempts: OptimizeAttempt[] = [];
+  let best: Encoded | null = null;
+  let smallest: Encoded | null = null;
+
+  const attempt = async (tier: SearchTier, width: number): Promise<Encoded> => {
+    const encoded = await encode(source, { width, frameStep: tier.frameStep, colours: tier.colours, dither: tier.dither });
+    attempts.push({ params: encoded.params, bytes: encoded.data.length });
+    console.log(`Optimizer attempt ${attempts.length}:`, JSON.stringify(encoded.params), encoded.data.length, 'bytes');
+    if (!smallest || encoded.data.length < smallest.data.length) {
+      smallest = encoded;
+    }
+    return encoded;
+  };
+
+  for (const tier of TIERS) {
+    if (attempts.length >= MAX_ENCODES) break;
+    const minWidth = Math.min(fullWidth, Math.max(MIN_WIDTH, Math.round(fullWidth * tier.minScale)));
+
+    let last = await attempt(tier, fullWidth);
+    if (last.data.length <= budgetBytes) {
+      best = last;
+      break;
+    }
+
+    let over = last;
+    let fit: Encoded | null = null;
+    while (attempts.length < MAX_ENCODES) {
+      // Size grows roughly with pixel count, so scale the width by the square root of the overshoot
+      const estimate = Math.floor(last.params.width * Math.sqrt(budgetBytes / last.data.length) * 0.98);
+      if (!fit && estimate < minWidth) break;
+
+      const floor = fit ? fit.params.width + 1 : minWidth;
+      if (over.params.width - floor <= WIDTH_TOLERANCE) break;
+
+      last = await attempt(tier, Math.min(over.params.width - 1, Math.max(floor, estimate)));
+      if (last.data.length > budgetBytes) {
+        over = last;
+      } else {
+        fit = last;
+        if (last.data.length >= budgetBytes * TARGET_FILL) break;
+      }
+    }
+
+    if (fit) {
+      best = fit;
+      break;
+    }
+  }
+
+  // Nothing fit yet: the smallest we're willing to go
+  if (!best) {
+    const last = await attempt(TIERS[TIERS.length - 1], Math.min(fullWidth, MIN_WIDTH));
+    if (last.data.length <= budgetBytes) {
+      best = last;
+    }
+  }
+
+  const chosen = best ?? smallest;
+  return {
+    data: chosen.data,
+    optimized: true,
+    fits: !!best,
+    budgetBytes,
+    originalBytes: gif.length,
+    params: chosen.params,
+    quality: await estimateQuality(source, chosen.data),
+    attempts
+  };
+}
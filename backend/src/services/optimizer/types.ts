@@ -0,0 +1,44 @@
+// What the output has to fit; dimensions are scaled down to fit and longer animations are cut short
+export interface OptimizeLimits {
+  maxBytes: number;
+  maxWidth?: number | null;
+  maxHeight?: number | null;
+  maxDurationMs?: number | null;
+}
+
+// Settings for one encode of the GIF
+export interface OptimizeParams {
+  width: number;
+  height: number;
+  // Keep every nth frame
+  frameStep: number;
+  colours: number;
+  // Floyd-Steinberg dithering strength, 0-1
+  dither: number;
+}
+
+export interface OptimizeAttempt {
+  params: OptimizeParams;
+  bytes: number;
+}
+
+export interface QualityEstimate {
+  // Peak signal-to-noise ratio against the original frames shown at the same moments, in dB
+  psnr: number;
+  // PSNR mapped onto 0-100 (20dB is 0, 45dB is 100); above about 60 is hard to tell from the original
+  score: number;
+}
+
+export interface OptimizeResult {
+  data: Buffer;
+  // False when the original already met the limits and was returned untouched
+  optimized: boolean;
+  // False when even the smallest settings we try stay over budget
+  fits: boolean;
+  budgetBytes: number;
+  originalBytes: number;
+  // Null when the original was returned untouched
+  params: OptimizeParams | null;
+  quality: QualityEstimate;
+  attempts: OptimizeAttempt[];
+}
@@ -0,0 +1,105 @@
+import type { ExportFormat } from './export/types.js';
+import type { StickerPlatform } from './stickers/types.js';
+
+// Where a result is headed, and what that destination accepts
+export interface PlatformPreset {
+  id: string;
+  name: string;
+  // Upload or inline-playback limit, with a little headroom
+  maxBytes: number;
+  maxWidth: number | null;
+  maxHeight: number | null;
+  // Longer animations are cut short
+  maxDurationMs: number | null;
+  // Format that plays best there
+  format: ExportFormat;
+  // Sticker platform used when the preset is given to the sticker routes
+  sticker: StickerPlatform | null;
+}
+
+const MB = 1024 * 1024;
+
+export const PLATFORM_PRESETS: PlatformPreset[] = [
+  {
+    id: 'whatsapp',
+    name: 'WhatsApp',
+    maxBytes: 15 * MB,
+    maxWidth: null,
+    maxHeight: null,
+    maxDurationMs: null,
+    // WhatsApp sends GIFs as looping MP4s anyway
+    format: 'mp4',
+    sticker: 'whatsapp'
+  },
+  {
+    id: 'discord',
+    name: 'Discord',
+    maxBytes: 8 * MB,
+    maxWidth: null,
+    maxHeight: null,
+    maxDurationMs: null,
+    format: 'gif',
+    sticker: null
+  },
+  {
+    id: 'slack',
+    name: 'Slack',
+    // Larger GIFs don't play inline
+    maxBytes: 2 * MB,
+    maxWidth: null,
+    maxHeight: null,
+    maxDurationMs: null,
+    format: 'gif',
+    sticker: null
+  },
+  {
+    id: 'telegram',
+    name: 'Telegram',
+    maxBytes: 10 * MB,
+    maxWidth: null,
+    maxHeight: null,
+    maxDurationMs: null,
+    // Telegram converts GIFs to MP4 animations on upload
+    format: 'mp4',
+    sticker: 'telegram'
+  },
+  {
+    id: 'imessage',
+    name: 'iMessage',
+    maxBytes: 5 * MB,
+    maxWidth: null,
+    maxHeight: null,
+    maxDurationMs: null,
+    format: 'gif',
+    sticker: null
+  },
+  {
+    id: 'twitter',
+    name: 'Twitter / X',
+    maxBytes: 15 * MB,
+    maxWidth: 1280,
+    maxHeight: 1080,
+    maxDurationMs: null,
+    format: 'gif',
+    sticker: null
+  },
+  {
+    id: 'email',
+    name: 'Email',
+    // Keeps messages quick to load and clear of attachment limits
+    maxBytes: 1 * MB,
+    maxWidth: 600,
+    maxHeight: null,
+    maxDurationMs: 10000,
+    format: 'gif',
+    sticker: null
+  }
+];
+
+export const DEFAULT_PRESET = 'whatsapp';
+
+// Takes the raw request value, which may be a number from JSON or an array from a repeated query parameter
+export function getPreset(id: unknown): PlatformPreset | null {
+  if (typeof id !== 'string') return null;
+  return PLATFORM_PRESETS.find(preset => preset.id === id.toLowerCase()) ?? null;
+}
@@ -0,0 +1,138 @@
+import sharp from 'sharp';
+import { getBlobStore } from '../storage/index.js';
+import { createSticker, STICKER_PROFILES } from '../stickers/index.js';
+import { createZip, type ZipEntry } from '../zip.js';
+import type { PackExport, PackExportFormat, PackExportOptions, PackSticker, StickerPack } from './types.js';
+
+export const PACK_EXPORT_FORMATS: PackExportFormat[] = ['wastickers', 'telegram'];
+
+// WhatsApp wants a 96x96 PNG tray icon under 50KB; Telegram set thumbnails are 100x100
+const WHATSAPP_TRAY_SIZE = 96;
+const MAX_TRAY_BYTES = 50 * 1024;
+const TELEGRAM_THUMB_SIZE = 100;
+
+async function loadBlob(key: string): Promise<Buffer> {
+  const data = await getBlobStore().get(key);
+  if (!data) {
+    throw new Error(`Sticker pack file ${key} is missing`);
+  }
+  return data;
+}
+
+// Square PNG from the uploaded tray image, or the first frame of the first sticker
+async function createTrayIcon(pack: StickerPack, size: number): Promise<Buffer> {
+  const source = await loadBlob(pack.trayBlobKey ?? pack.stickers[0].blobKey);
+  const resized = sharp(source, { pages: 1 }).resize(size, size, {
+    fit: 'contain',
+    background: { r: 0, g: 0, b: 0, alpha: 0 }
+  });
+
+  const png = await resized.clone().png({ compressionLevel: 9 }).toBuffer();
+  // Busy images can exceed the limit as truecolour; a palette brings them well under it
+  return png.length <= MAX_TRAY_BYTES ? png : resized.png({ palette: true, colours: 64 }).toBuffer();
+}
+
+const stickerFileName = (index: number, extension = 'webp') => `${String(index + 1).padStart(2, '0')}.${extension}`;
+
+// Telegram set names are at most 64 characters
+const MAX_TELEGRAM_SET_NAME = 64;
+
+// Name Telegram accepts for a set: letters, digits and underscores, starting with a letter and ending
+// in _by_<bot username> for the bot that creates it
+function telegramSetName(pack: StickerPack, botUsername: string): string {
+  const suffix = `_${pack.id.slice(0, 8)}_by_${botUsername}`;
+  const slug = pack.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+/, '')
+    .slice(0, MAX_TELEGRAM_SET_NAME - suffix.length)
+    .replace(/_+$/, '');
+  return `${slug || 'gifswap'}${suffix}`;
+}
+
+// WhatsApp only imports packs whose stickers are all animated or all static. Returns the stickers that
+// don't match the rest of the pack (the smaller group, the static ones on a tie), or none when it's uniform
+export function mismatchedStickers(pack: StickerPack): PackSticker[] {
+  const animated = pack.stickers.filter(sticker => sticker.animated);
+  const still = pack.stickers.filter(sticker => !sticker.animated);
+  if (animated.length === 0 || still.length === 0) return [];
+  return animated.length < still.length ? animated : still;
+}
+
+// Zip layout used by third-party WhatsApp sticker apps, plus the contents.json manifest of WhatsApp's sample app
+async function buildWastickers(pack: StickerPack): Promise<ZipEntry[]> {
+  const stickers = await Promise.all(pack.stickers.map(sticker => loadBlob(sticker.blobKey)));
+  const contents = {
+    sticker_packs: [{
+      identifier: pack.id,
+      name: pack.name,
+      publisher: pack.publisher,
+      tray_image_file: 'tray.png',
+      image_data_version: pack.updatedAt,
+      animated_sticker_pack: pack.stickers[0].animated,
+      stickers: pack.stickers.map((sticker, i) => ({ image_file: stickerFileName(i), emojis: sticker.emojis }))
+    }]
+  };
+
+  return [
+    { name: 'title.txt', data: Buffer.from(pack.name, 'utf8') },
+    { name: 'author.txt', data: Buffer.from(pack.publisher, 'utf8') },
+    { name: 'tray.png', data: await createTrayIcon(pack, WHATSAPP_TRAY_SIZE) },
+    { name: 'contents.json', data: Buffer.from(JSON.stringify(contents, null, 2), 'utf8') },
+    ...stickers.map((data, i) => ({ name: stickerFileName(i), data }))
+  ];
+}
+
+// Telegram takes animated stickers only as VP9 WebM video stickers ("animated" means Lottie there), so
+// those are re-rendered from the pack's WebP; static WebPs are accepted as they are
+async function telegramSticker(data: Buffer, animated: boolean): Promise<{ data: Buffer; extension: string; format: string }> {
+  if (!animated) {
+    return { data, extension: 'webp', format: 'static' };
+  }
+  const video = await createSticker(data, { profile: STICKER_PROFILES['telegram-video'] });
+  return { data: video.data, extension: 'webm', format: 'video' };
+}
+
+// Files and a manifest laid out for uploading through the Bot API's createNewStickerSet
+async function buildTelegramBundle(pack: StickerPack, botUsername: string): Promise<ZipEntry[]> {
+  const stickers = await Promise.all(pack.stickers.map(async sticker =>
+    telegramSticker(await loadBlob(sticker.blobKey), sticker.animated)
+  ));
+  const files = stickers.map((sticker, i) => `stickers/${stickerFileName(i, sticker.extension)}`);
+  const manifest = {
+    name: telegramSetName(pack, botUsername),
+    title: pack.name,
+    publisher: pack.publisher,
+    thumbnail: 'thumb.png',
+    stickers: pack.stickers.map((sticker, i) => ({
+      file: files[i],
+      format: stickers[i].format,
+      emoji_list: sticker.emojis.length > 0 ? sticker.emojis : ['🙂']
+    }))
+  };
+
+  return [
+    { name: 'set.json', data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8') },
+    { name: 'thumb.png', data: await createTrayIcon(pack, TELEGRAM_THUMB_SIZE) },
+    ...stickers.map((sticker, i) => ({ name: files[i], data: sticker.data }))
+  ];
+}
+
+export async function exportPack(pack: StickerPack, format: PackExportFormat, options: PackExportOptions = {}): Promise<PackExport> {
+  if (pack.stickers.length === 0) {
+    throw new Error('Sticker pack is empty');
+  }
+
+  const baseName = pack.name.replace(/[^\w\- ]+/g, '').trim() || 'sticker-pack';
+  if (format === 'telegram') {
+    if (!options.telegramBot) {
+      throw new Error('Telegram exports need the username of the bot that will create the set');
+    }
+    const entries = await buildTelegramBundle(pack, options.telegramBot);
+    return { fileName: `${baseName}-telegram.zip`, contentType: 'application/zip', data: createZip(entries) };
+  }
+  if (mismatchedStickers(pack).length > 0) {
+    throw new Error('WhatsApp sticker packs must be all animated or all static');
+  }
+  return { fileName: `${baseName}.wastickers`, contentType: 'application/zip', data: createZip(await buildWastickers(pack)) };
+}
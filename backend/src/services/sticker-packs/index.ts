@@ -0,0 +1,81 @@
+import { randomUUID } from 'crypto';
+import { createJsonCollection } from '../json-collection.js';
+import { getBlobStore } from '../storage/index.js';
+import { loadGif } from '../media.js';
+import { createSticker } from '../stickers/index.js';
+import type { PackSticker, StickerPack } from './types.js';
+
+export * from './types.js';
+export { exportPack, mismatchedStickers, PACK_EXPORT_FORMATS } from './export.js';
+
+// WhatsApp accepts packs of 3 to 30 stickers
+export const MIN_PACK_STICKERS = 3;
+export const MAX_PACK_STICKERS = 30;
+
+const packs = createJsonCollection<StickerPack>('sticker-packs.json', pack => pack.id);
+
+const packPrefix = (packId: string) => `sticker-packs/${packId}`;
+
+export function getPack(id: string): Promise<StickerPack | null> {
+  return packs.get(id);
+}
+
+export async function createPack(name: string, publisher: string, trayImage: Buffer | null = null): Promise<StickerPack> {
+  const now = new Date().toISOString();
+  const pack: StickerPack = {
+    id: randomUUID(),
+    name,
+    publisher,
+    trayBlobKey: null,
+    stickers: [],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  if (trayImage) {
+    pack.trayBlobKey = `${packPrefix(pack.id)}/tray-source`;
+    await getBlobStore().put(pack.trayBlobKey, trayImage, 'application/octet-stream');
+  }
+  return packs.set(pack);
+}
+
+// Convert a swap output into a compliant sticker carrying the pack's metadata and add it to the pack
+export async function addPackSticker(pack: StickerPack, source: string, emojis: string[] = []): Promise<PackSticker> {
+  if (pack.stickers.length >= MAX_PACK_STICKERS) {
+    throw new Error(`A sticker pack holds at most ${MAX_PACK_STICKERS} stickers`);
+  }
+
+  const gif = await loadGif(source);
+  const sticker = await createSticker(gif, {
+    metadata: { packId: pack.id, packName: pack.name, publisher: pack.publisher, emojis }
+  });
+
+  const id = randomUUID();
+  const blob = await getBlobStore().put(`${packPrefix(pack.id)}/${id}.webp`, sticker.data, 'image/webp');
+  const packSticker: PackSticker = {
+    id,
+    source,
+    blobKey: blob.key,
+    emojis,
+    animated: sticker.animated,
+    size: blob.size,
+    strategy: sticker.strategy,
+    addedAt: new Date().toISOString()
+  };
+
+  pack.stickers.push(packSticker);
+  pack.updatedAt = packSticker.addedAt;
+  await packs.set(pack);
+  return packSticker;
+}
+
+export async function removePackSticker(pack: StickerPack, stickerId: string): Promise<boolean> {
+  const sticker = pack.stickers.find(s => s.id === stickerId);
+  if (!sticker) return false;
+
+  await getBlobStore().delete(sticker.blobKey);
+  pack.stickers = pack.stickers.filter(s => s.id !== stickerId);
+  pack.updatedAt = new Date().toISOString();
+  await packs.set(pack);
+  return true;
+}
@@ -0,0 +1,35 @@
+export interface PackSticker {
+  id: string;
+  // GIF URL or media ID the sticker was made from
+  source: string;
+  blobKey: string;
+  emojis: string[];
+  animated: boolean;
+  size: number;
+  strategy: string;
+  addedAt: string;
+}
+
+export interface StickerPack {
+  id: string;
+  name: string;
+  publisher: string;
+  // Uploaded tray icon; when absent one is generated from the first sticker
+  trayBlobKey: string | null;
+  stickers: PackSticker[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PackExportFormat = 'wastickers' | 'telegram';
+
+export interface PackExportOptions {
+  // Username of the bot that will create a Telegram set, without the @
+  telegramBot?: string;
+}
+
+export interface PackExport {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
@@ -0,0 +1,149 @@
+import type { StickerMetadata } from './types.js';
+
+// WhatsApp reads sticker pack details from a JSON blob stored under this private tag in the WebP EXIF chunk
+const WHATSAPP_EXIF_TAG = 0x5741;
+// Little-endian TIFF header, one IFD entry (tag, type UNDEFINED, byte count, offset to the JSON), next-IFD 0
+const TIFF_HEADER_SIZE = 22;
+
+// VP8X feature flags
+const FLAG_ALPHA = 0x10;
+const FLAG_EXIF = 0x08;
+
+interface RiffChunk {
+  fourCC: string;
+  data: Buffer;
+}
+
+function readChunks(webp: Buffer): RiffChunk[] {
+  if (webp.length < 12 || webp.toString('ascii', 0, 4) !== 'RIFF' || webp.toString('ascii', 8, 12) !== 'WEBP') {
+    throw new Error('Not a WebP file');
+  }
+
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const fourCC = webp.toString('ascii', offset, offset + 4);
+    const size = webp.readUInt32LE(offset + 4);
+    if (offset + 8 + size > webp.length) {
+      throw new Error(`Truncated ${fourCC} chunk`);
+    }
+    chunks.push({ fourCC, data: webp.subarray(offset + 8, offset + 8 + size) });
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function writeChunks(chunks: RiffChunk[]): Buffer {
+  const parts = chunks.flatMap(({ fourCC, data }) => {
+    const header = Buffer.alloc(8);
+    header.write(fourCC, 0, 'ascii');
+    header.writeUInt32LE(data.length, 4);
+    return data.length % 2 ? [header, data, Buffer.alloc(1)] : [header, data];
+  });
+  const body = Buffer.concat(parts);
+
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'ascii');
+  return Buffer.concat([header, body]);
+}
+
+// Canvas size and alpha of a simple-format (VP8 or VP8L) image, needed to build a VP8X header for it
+function readSimpleImageInfo(chunk: RiffChunk): { width: number; height: number; alpha: boolean } {
+  const { fourCC, data } = chunk;
+  if (fourCC === 'VP8L') {
+    const bits = data.readUInt32LE(1);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+      alpha: ((bits >> 28) & 1) === 1
+    };
+  }
+  if (fourCC === 'VP8 ') {
+    return {
+      width: data.readUInt16LE(6) & 0x3fff,
+      height: data.readUInt16LE(8) & 0x3fff,
+      alpha: false
+    };
+  }
+  throw new Error(`Unexpected WebP image chunk ${fourCC}`);
+}
+
+function createVp8xChunk(width: number, height: number, flags: number): RiffChunk {
+  const data = Buffer.alloc(10);
+  data.writeUInt8(flags, 0);
+  data.writeUIntLE(width - 1, 4, 3);
+  data.writeUIntLE(height - 1, 7, 3);
+  return { fourCC: 'VP8X', data };
+}
+
+function buildExif(metadata: StickerMetadata): Buffer {
+  const json = Buffer.from(JSON.stringify({
+    'sticker-pack-id': metadata.packId,
+    'sticker-pack-name': metadata.packName,
+    'sticker-pack-publisher': metadata.publisher,
+    emojis: metadata.emojis ?? []
+  }), 'utf8');
+
+  const header = Buffer.alloc(TIFF_HEADER_SIZE);
+  header.write('II', 0, 'ascii');
+  header.writeUInt16LE(42, 2);
+  header.writeUInt32LE(8, 4);
+  header.writeUInt16LE(1, 8);
+  header.writeUInt16LE(WHATSAPP_EXIF_TAG, 10);
+  header.writeUInt16LE(7, 12);
+  header.writeUInt32LE(json.length, 14);
+  header.writeUInt32LE(TIFF_HEADER_SIZE, 18);
+  return Buffer.concat([header, json]);
+}
+
+// Embed WhatsApp sticker pack metadata, converting simple WebP files to the extended format that can carry EXIF
+export function writeStickerMetadata(webp: Buffer, metadata: StickerMetadata): Buffer {
+  let chunks = readChunks(webp).filter(chunk => chunk.fourCC !== 'EXIF');
+
+  if (chunks[0]?.fourCC === 'VP8X') {
+    const data = Buffer.from(chunks[0].data);
+    data[0] |= FLAG_EXIF;
+    chunks[0] = { fourCC: 'VP8X', data };
+  } else {
+    const { width, height, alpha } = readSimpleImageInfo(chunks[0]);
+    chunks = [createVp8xChunk(width, height, FLAG_EXIF | (alpha ? FLAG_ALPHA : 0)), ...chunks];
+  }
+
+  // EXIF goes after the image data and before any XMP chunk
+  const exif = { fourCC: 'EXIF', data: buildExif(metadata) };
+  const xmpIndex = chunks.findIndex(chunk => chunk.fourCC === 'XMP ');
+  if (xmpIndex === -1) {
+    chunks.push(exif);
+  } else {
+    chunks.splice(xmpIndex, 0, exif);
+  }
+  return writeChunks(chunks);
+}
+
+// Read back the metadata written by writeStickerMetadata, or null if the file has none
+export function readStickerMetadata(webp: Buffer): StickerMetadata | null {
+  const exif = readChunks(webp).find(chunk => chunk.fourCC === 'EXIF')?.data;
+  if (!exif || exif.toString('ascii', 0, 2) !== 'II') return null;
+
+  const ifdOffset = exif.readUInt32LE(4);
+  const entryCount = exif.readUInt16LE(ifdOffset);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (exif.readUInt16LE(entry) !== WHATSAPP_EXIF_TAG) continue;
+
+    const length = exif.readUInt32LE(entry + 4);
+    // Values of four bytes or less are stored inline instead of at an offset
+    const start = length <= 4 ? entry + 8 : exif.readUInt32LE(entry + 8);
+    const json = JSON.parse(exif.toString('utf8', start, start + length));
+    return {
+      packId: json['sticker-pack-id'],
+      packName: json['sticker-pack-name'],
+      publisher: json['sticker-pack-publisher'],
+      emojis: json.emojis ?? []
+    };
+  }
+  return null;
+}
@@ -0,0 +1,77 @@
+import sharp from 'sharp';
+import type { StickerFixStep, StickerLimits } from './types.js';
+
+// Tried in order until the output complies: quality first, then fewer frames, then fewer colours
+export const FIX_STEPS: StickerFixStep[] = [
+  { quality: 80, frameStep: 1, colours: 256 },
+  { quality: 60, frameStep: 1, colours: 256 },
+  { quality: 40, frameStep: 1, colours: 256 },
+  { quality: 40, frameStep: 2, colours: 128 },
+  { quality: 30, frameStep: 2, colours: 64 },
+  { quality: 30, frameStep: 3, colours: 32 },
+  { quality: 20, frameStep: 4, colours: 16 }
+];
+
+// Browsers play GIF frames with no delay at 100ms, so treat them the same way
+const DEFAULT_FRAME_DELAY_MS = 100;
+
+// Pick frames so the animation stays within the frame rate and duration limits, merging the delays
+// of dropped frames into the ones kept so playback speed is unchanged
+function selectFrames(delays: number[], frameStep: number, limits: StickerLimits): { index: number; delay: number }[] {
+  const minDelay = Math.max(limits.minFrameDelayMs, Math.ceil(1000 / limits.maxFrameRate));
+  const selected: { index: number; delay: number }[] = [];
+  let total = 0;
+  let i = 0;
+
+  while (i < delays.length) {
+    const index = i;
+    let delay = 0;
+    let taken = 0;
+    // Take frameStep frames, and keep absorbing more while the merged frame is still too short
+    while (i < delays.length && (taken < frameStep || delay < minDelay)) {
+      delay += delays[i] || DEFAULT_FRAME_DELAY_MS;
+      i++;
+      taken++;
+    }
+    delay = Math.max(delay, minDelay);
+
+    if (total + delay > limits.maxDurationMs) {
+      // Always keep something, even if the first frame alone is too long
+      if (selected.length === 0) selected.push({ index, delay: limits.maxDurationMs });
+      break;
+    }
+    total += delay;
+    selected.push({ index, delay });
+  }
+  return selected;
+}
+
+// Rebuild the source animation for one fix step. The result is a GIF, which every strategy accepts.
+export async function prepareSource(
+  source: Buffer,
+  { frameStep, colours }: StickerFixStep,
+  limits: StickerLimits
+): Promise<Buffer> {
+  const metadata = await sharp(source, { animated: true }).metadata();
+  const pages = metadata.pages || 1;
+  // Static-only profiles take the first frame anyway
+  if (pages === 1 || limits.maxAnimatedBytes === 0) {
+    return colours < 256 ? sharp(source).gif({ colours }).toBuffer() : source;
+  }
+
+  const width = metadata.width;
+  const frameHeight = metadata.pageHeight || metadata.height;
+  const frames = selectFrames(metadata.delay ?? new Array(pages).fill(DEFAULT_FRAME_DELAY_MS), frameStep, limits);
+  // Nothing to change; hand the original to the strategy untouched
+  if (frames.length === pages && colours >= 256 && !metadata.loop && frames.every((frame, i) => frame.delay === metadata.delay?.[i])) {
+    return source;
+  }
+
+  const raw = await sharp(source, { animated: true }).ensureAlpha().raw().toBuffer();
+  const frameBytes = width * frameHeight * 4;
+  const strip = Buffer.concat(frames.map(({ index }) => raw.subarray(index * frameBytes, (index + 1) * frameBytes)));
+
+  return sharp(strip, { raw: { width, height: frameHeight * frames.length, channels: 4, pageHeight: frameHeight } })
+    .gif({ delay: frames.map(frame => frame.delay), loop: 0, colours })
+    .toBuffer();
+}
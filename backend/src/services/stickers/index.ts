@@ -0,0 +1,124 @@
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { readStickerMetadata, writeStickerMetadata } from './exif.js';
+import { FIX_STEPS, prepareSource } from './fixer.js';
+import { STICKER_CONTENT_TYPES, STICKER_PROFILES } from './profiles.js';
+import { sharpAnimated, staticFirstFrame } from './strategies.js';
+import { inspectSticker, validateSticker } from './validator.js';
+import type {
+  StickerAttempt,
+  StickerFixStep,
+  StickerFormat,
+  StickerMetadata,
+  StickerProfile,
+  StickerResult,
+  StickerStrategy
+} from './types.js';
+
+export * from './types.js';
+export { readStickerMetadata, writeStickerMetadata } from './exif.js';
+export { FIX_STEPS } from './fixer.js';
+export { getStickerProfile, STICKER_CONTENT_TYPES, STICKER_EXTENSIONS, STICKER_PLATFORMS, STICKER_PROFILES } from './profiles.js';
+export { inspectSticker, isWebP, validateSticker } from './validator.js';
+
+export interface CreateStickerOptions {
+  profile?: StickerProfile;
+  // Defaults to the profile's first format
+  format?: StickerFormat;
+  metadata?: StickerMetadata;
+  steps?: StickerFixStep[];
+  // Overrides the profile's strategy chain, e.g. to debug a single converter
+  strategies?: StickerStrategy[];
+}
+
+// Reject outputs that decode wrongly, e.g. an "animated" strategy that silently kept one frame
+async function checkOutput(strategy: StickerStrategy, data: Buffer, sourcePages: number): Promise<void> {
+  const inspection = await inspectSticker(data);
+  if (!inspection) {
+    throw new Error(`Output is not a ${strategy.format.toUpperCase()} file`);
+  }
+  if (strategy.animated && sourcePages > 1 && inspection.frames < 2) {
+    throw new Error('Output lost the animation');
+  }
+}
+
+const describeStep = ({ quality, frameStep, colours }: StickerFixStep) =>
+  `quality ${quality}, ${frameStep === 1 ? 'every frame' : `1 in ${frameStep} frames`}, ${colours} colours`;
+
+// Same name and publisher give the same ID, so WhatsApp groups stickers made separately into one pack
+export function stickerPackId(packName: string, publisher: string): string {
+  return `gifswap-${createHash('sha256').update(`${packName}\n${publisher}`).digest('hex').slice(0, 16)}`;
+}
+
+// Convert with each strategy in turn, walking down the fix ladder until the output passes the profile's checks
+export async function createSticker(
+  source: Buffer,
+  { profile = STICKER_PROFILES.whatsapp, format = profile.formats[0], metadata, steps = FIX_STEPS, strategies }: CreateStickerOptions = {}
+): Promise<StickerResult> {
+  const chain = strategies ?? profile.strategies[format];
+  if (!chain) {
+    throw new Error(`${profile.platform} stickers can't be ${format.toUpperCase()}`);
+  }
+
+  const { limits } = profile;
+  const { pages = 1 } = await sharp(source, { animated: true }).metadata();
+  const attempts: StickerAttempt[] = [];
+
+  const fail = (strategy: StickerStrategy, step: StickerFixStep, error: string) => {
+    console.log(`Sticker strategy ${strategy.name} failed (${describeStep(step)}):`, error);
+    attempts.push({ strategy: strategy.name, step, error });
+  };
+
+  for (const strategy of chain) {
+    // Frame and colour reduction changes nothing for a still, so only quality steps apply
+    const strategySteps = strategy.animated ? steps : steps.filter(step => step.frameStep === 1 && step.colours === 256);
+
+    for (const step of strategySteps) {
+      let data: Buffer;
+      try {
+        const prepared = await prepareSource(source, step, limits);
+        data = await strategy.convert(prepared, {
+          size: limits.size,
+          fit: limits.square ? 'contain' : 'inside',
+          quality: step.quality
+        });
+        await checkOutput(strategy, data, pages);
+        if (metadata && profile.embedsMetadata && strategy.format === 'webp') {
+          data = writeStickerMetadata(data, metadata);
+        }
+      } catch (error) {
+        // A broken strategy won't do better with more compression; move on to the next one
+        fail(strategy, step, error instanceof Error ? error.message : String(error));
+        break;
+      }
+
+      const validation = await validateSticker(data, profile);
+      if (!validation.valid) {
+        fail(strategy, step, validation.violations.map(violation => violation.message).join('; '));
+        continue;
+      }
+      console.log(`${profile.platform} sticker created with ${strategy.name} (${describeStep(step)}), size:`, data.length);
+      return {
+        data,
+        platform: profile.platform,
+        format: validation.inspection.format as StickerFormat,
+        contentType: STICKER_CONTENT_TYPES[validation.inspection.format as StickerFormat],
+        strategy: strategy.name,
+        animated: validation.inspection.animated,
+        step,
+        validation,
+        attempts
+      };
+    }
+  }
+
+  throw new Error(`No sticker strategy succeeded: ${attempts.map(a => `${a.strategy} (${describeStep(a.step)}): ${a.error}`).join('; ')}`);
+}
+
+// Re-encode an existing WhatsApp sticker until it complies, keeping any pack metadata it carried
+export async function fixSticker(webp: Buffer): Promise<StickerResult> {
+  return createSticker(webp, {
+    metadata: readStickerMetadata(webp) ?? undefined,
+    strategies: [sharpAnimated, staticFirstFrame]
+  });
+}
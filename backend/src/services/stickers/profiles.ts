@@ -0,0 +1,107 @@
+import {
+  ffmpegAnimated,
+  ffmpegApng,
+  ffmpegWebm,
+  gif2webp,
+  pngFirstFrame,
+  sharpAnimated,
+  staticFirstFrame
+} from './strategies.js';
+import type { StickerFormat, StickerPlatform, StickerProfile } from './types.js';
+
+export const STICKER_CONTENT_TYPES: Record<StickerFormat, string> = {
+  webp: 'image/webp',
+  png: 'image/png',
+  apng: 'image/apng',
+  webm: 'video/webm'
+};
+
+export const STICKER_EXTENSIONS: Record<StickerFormat, string> = {
+  webp: 'webp',
+  png: 'png',
+  apng: 'png',
+  webm: 'webm'
+};
+
+export const STICKER_PROFILES: Record<StickerPlatform, StickerProfile> = {
+  whatsapp: {
+    platform: 'whatsapp',
+    limits: {
+      size: 512,
+      square: true,
+      maxAnimatedBytes: 500 * 1024,
+      maxStaticBytes: 100 * 1024,
+      maxDurationMs: 10_000,
+      maxFrameRate: 30,
+      minFrameDelayMs: 8,
+      requireLoop: true
+    },
+    formats: ['webp'],
+    // Preferred first: sharp runs in-process; the others shell out and are kept as fallbacks
+    strategies: { webp: [sharpAnimated, ffmpegAnimated, gif2webp, staticFirstFrame] },
+    embedsMetadata: true
+  },
+
+  // Telegram static stickers: one side exactly 512px
+  telegram: {
+    platform: 'telegram',
+    limits: {
+      size: 512,
+      square: false,
+      maxAnimatedBytes: 0,
+      maxStaticBytes: 512 * 1024,
+      maxDurationMs: 0,
+      maxFrameRate: 0,
+      minFrameDelayMs: 0,
+      requireLoop: false
+    },
+    formats: ['webp', 'png'],
+    strategies: { webp: [staticFirstFrame], png: [pngFirstFrame] },
+    embedsMetadata: false
+  },
+
+  // Telegram video stickers: VP9 WebM, no audio
+  'telegram-video': {
+    platform: 'telegram-video',
+    limits: {
+      size: 512,
+      square: false,
+      maxAnimatedBytes: 256 * 1024,
+      maxStaticBytes: 256 * 1024,
+      maxDurationMs: 3_000,
+      maxFrameRate: 30,
+      minFrameDelayMs: 0,
+      requireLoop: false
+    },
+    formats: ['webm'],
+    strategies: { webm: [ffmpegWebm] },
+    embedsMetadata: false
+  },
+
+  signal: {
+    platform: 'signal',
+    limits: {
+      size: 512,
+      square: true,
+      maxAnimatedBytes: 300 * 1024,
+      maxStaticBytes: 300 * 1024,
+      maxDurationMs: 10_000,
+      maxFrameRate: 30,
+      minFrameDelayMs: 8,
+      requireLoop: true
+    },
+    formats: ['webp', 'apng'],
+    strategies: {
+      webp: [sharpAnimated, ffmpegAnimated, gif2webp, staticFirstFrame],
+      apng: [ffmpegApng, pngFirstFrame]
+    },
+    embedsMetadata: false
+  }
+};
+
+export const STICKER_PLATFORMS = Object.keys(STICKER_PROFILES) as StickerPlatform[];
+
+// Returns null for platforms or formats we don't produce
+export function getStickerProfile(platform: string = 'whatsapp'): StickerProfile | null {
+  return STICKER_PROFILES[platform as StickerPlatform] ?? null;
+}
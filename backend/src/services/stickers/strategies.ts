@@ -0,0 +1,127 @@
+import sharp from 'sharp';
+import webp from 'webp-converter';
+import { promises as fs } from 'fs';
+import { runFfmpeg, withTempFiles } from '../ffmpeg.js';
+import type { StickerOptions, StickerStrategy } from './types.js';
+
+// The bundled libwebp binaries ship without the executable bit on some systems
+webp.grant_permission();
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+// Fit every frame to the sticker size, keeping the animation
+function resizeAnimated(gif: Buffer, { size, fit }: StickerOptions) {
+  return sharp(gif, { animated: true }).resize(size, size, { fit, background: TRANSPARENT });
+}
+
+function resizeFirstFrame(gif: Buffer, { size, fit }: StickerOptions) {
+  return sharp(gif, { pages: 1 }).resize(size, size, { fit, background: TRANSPARENT });
+}
+
+export const sharpAnimated: StickerStrategy = {
+  name: 'sharp-animated',
+  format: 'webp',
+  animated: true,
+  async convert(gif, options) {
+    return resizeAnimated(gif, options).webp({ quality: options.quality, effort: 4, loop: 0 }).toBuffer();
+  }
+};
+
+export const ffmpegAnimated: StickerStrategy = {
+  name: 'ffmpeg-libwebp-anim',
+  format: 'webp',
+  animated: true,
+  convert(gif, { size, fit, quality }) {
+    const scale = `scale=${size}:${size}:force_original_aspect_ratio=decrease`;
+    return withTempFiles(gif, 'gif', 'webp', (inputPath, outputPath) =>
+      runFfmpeg(inputPath, outputPath, ['-f', 'gif'], [
+        '-c:v', 'libwebp_anim',
+        '-vf', fit === 'contain' ? `${scale},pad=${size}:${size}:(ow-iw)/2:(oh-ih)/2:color=#00000000` : scale,
+        '-loop', '0',
+        '-an',
+        '-vsync', '0',
+        '-quality', String(quality),
+        '-compression_level', '4'
+      ])
+    );
+  }
+};
+
+export const gif2webp: StickerStrategy = {
+  name: 'gif2webp',
+  format: 'webp',
+  animated: true,
+  async convert(gif, options) {
+    // gif2webp can't resize, so fit the GIF first
+    const resized = await resizeAnimated(gif, options).gif({ loop: 0 }).toBuffer();
+    return withTempFiles(resized, 'gif', 'webp', async (inputPath, outputPath) => {
+      const output = await webp.gwebp(inputPath, outputPath, `-q ${options.quality} -m 4 -lossy`);
+      // The wrapper never rejects; a missing output file is the only sign of failure
+      await fs.access(outputPath).catch(() => {
+        throw new Error(output?.trim() || 'gif2webp produced no output');
+      });
+    });
+  }
+};
+
+// Last resort for animated profiles: a still sticker from the first frame
+export const staticFirstFrame: StickerStrategy = {
+  name: 'static-first-frame',
+  format: 'webp',
+  animated: false,
+  async convert(gif, options) {
+    return resizeFirstFrame(gif, options).webp({ quality: options.quality }).toBuffer();
+  }
+};
+
+export const pngFirstFrame: StickerStrategy = {
+  name: 'png-first-frame',
+  format: 'png',
+  animated: false,
+  async convert(gif, options) {
+    return resizeFirstFrame(gif, options).png({ compressionLevel: 9, palette: options.quality < 100, quality: options.quality }).toBuffer();
+  }
+};
+
+// APNG is lossless, so only the fix ladder's frame and colour reductions shrink it
+export const ffmpegApng: StickerStrategy = {
+  name: 'ffmpeg-apng',
+  format: 'apng',
+  animated: true,
+  async convert(gif, options) {
+    const resized = await resizeAnimated(gif, options).gif({ loop: 0 }).toBuffer();
+    return withTempFiles(resized, 'gif', 'png', (inputPath, outputPath) =>
+      runFfmpeg(inputPath, outputPath, ['-f', 'gif'], [
+        // Palette frames compress several times smaller than RGBA and the source is a GIF anyway
+        '-vf', 'split[a][b];[a]palettegen=reserve_transparent=1[p];[b][p]paletteuse=dither=none',
+        '-pix_fmt', 'pal8',
+        '-c:v', 'apng',
+        '-f', 'apng',
+        '-plays', '0',
+        '-an'
+      ])
+    );
+  }
+};
+
+// Telegram video stickers: VP9 with alpha, quality mapped onto the constant-quality scale (0 best, 63 worst)
+export const ffmpegWebm: StickerStrategy = {
+  name: 'ffmpeg-vp9-webm',
+  format: 'webm',
+  animated: true,
+  async convert(gif, options) {
+    const resized = await resizeAnimated(gif, options).gif({ loop: 0 }).toBuffer();
+    const crf = Math.round(63 - options.quality * 0.5);
+    return withTempFiles(resized, 'gif', 'webm', (inputPath, outputPath) =>
+      runFfmpeg(inputPath, outputPath, ['-f', 'gif'], [
+        '-c:v', 'libvpx-vp9',
+        '-pix_fmt', 'yuva420p',
+        '-b:v', '0',
+        '-crf', String(crf),
+        '-deadline', 'good',
+        '-cpu-used', '4',
+        '-an'
+      ])
+    );
+  }
+};
@@ -0,0 +1,104 @@
+export type StickerFormat = 'webp' | 'png' | 'apng' | 'webm';
+
+export interface StickerOptions {
+  // Edge length in pixels
+  size: number;
+  // "contain" letterboxes onto a transparent square; "inside" scales so the longer side matches
+  fit: 'contain' | 'inside';
+  // Encoder quality, 0-100
+  quality: number;
+}
+
+// One way of turning a GIF into a sticker; strategies are tried in order until one works
+export interface StickerStrategy {
+  name: string;
+  format: StickerFormat;
+  animated: boolean;
+  convert(gif: Buffer, options: StickerOptions): Promise<Buffer>;
+}
+
+export type StickerPlatform = 'whatsapp' | 'telegram' | 'telegram-video' | 'signal';
+
+export interface StickerLimits {
+  size: number;
+  // WhatsApp and Signal need an exact square; Telegram only needs the longer side to match
+  square: boolean;
+  maxAnimatedBytes: number;
+  maxStaticBytes: number;
+  maxDurationMs: number;
+  maxFrameRate: number;
+  minFrameDelayMs: number;
+  // Whether animations must be marked to loop forever
+  requireLoop: boolean;
+}
+
+// Output requirements of one messaging app, and the strategies that can meet them for each format it accepts
+export interface StickerProfile {
+  platform: StickerPlatform;
+  limits: StickerLimits;
+  // The first format is the default
+  formats: StickerFormat[];
+  strategies: Record<string, StickerStrategy[]>;
+  // Only WhatsApp reads pack details from the sticker file
+  embedsMetadata: boolean;
+}
+
+// One rung of the auto-fix ladder: how hard to compress when the previous attempt didn't comply
+export interface StickerFixStep {
+  quality: number;
+  // Keep every nth frame
+  frameStep: number;
+  // Palette size the frames are reduced to before encoding; 256 leaves them as they are
+  colours: number;
+}
+
+export interface StickerAttempt {
+  strategy: string;
+  step: StickerFixStep;
+  error: string;
+}
+
+export interface StickerResult {
+  data: Buffer;
+  platform: StickerPlatform;
+  format: StickerFormat;
+  contentType: string;
+  strategy: string;
+  animated: boolean;
+  step: StickerFixStep;
+  validation: StickerValidation;
+  // Strategies and fix steps that were tried first and why they were rejected
+  attempts: StickerAttempt[];
+}
+
+export interface StickerInspection {
+  format: StickerFormat | 'unknown';
+  width: number;
+  height: number;
+  bytes: number;
+  animated: boolean;
+  frames: number;
+  durationMs: number;
+  frameDelays: number[];
+  // 0 means it loops forever
+  loop: number;
+}
+
+export interface StickerViolation {
+  rule: 'format' | 'dimensions' | 'size' | 'duration' | 'frame-rate' | 'frame-timing' | 'loop';
+  message: string;
+}
+
+export interface StickerValidation {
+  valid: boolean;
+  violations: StickerViolation[];
+  inspection: StickerInspection | null;
+}
+
+// Sticker pack details WhatsApp shows for a sticker
+export interface StickerMetadata {
+  packId: string;
+  packName: string;
+  publisher: string;
+  emojis?: string[];
+}
@@ -0,0 +1,194 @@
+import sharp from 'sharp';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { STICKER_PROFILES } from './profiles.js';
+import type { StickerFormat, StickerInspection, StickerProfile, StickerValidation, StickerViolation } from './types.js';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const EBML_MAGIC = Buffer.from([0x1a, 0x45, 0xdf, 0xa3]);
+
+export function isWebP(data: Buffer): boolean {
+  return data.length > 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP';
+}
+
+function detectFormat(data: Buffer): StickerFormat | 'unknown' {
+  if (isWebP(data)) return 'webp';
+  if (data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    // An acTL chunk before the image data marks an animated PNG
+    const firstData = data.indexOf('IDAT');
+    const actl = data.indexOf('acTL');
+    return actl !== -1 && (firstData === -1 || actl < firstData) ? 'apng' : 'png';
+  }
+  if (data.subarray(0, 4).equals(EBML_MAGIC)) return 'webm';
+  return 'unknown';
+}
+
+async function inspectImage(data: Buffer, format: StickerFormat): Promise<StickerInspection> {
+  const metadata = await sharp(data, { animated: true }).metadata();
+  const frames = metadata.pages || 1;
+  const frameDelays = frames > 1 ? metadata.delay ?? [] : [];
+
+  return {
+    format,
+    width: metadata.width,
+    height: metadata.pageHeight || metadata.height,
+    bytes: data.length,
+    animated: frames > 1,
+    frames,
+    durationMs: frameDelays.reduce((sum, delay) => sum + delay, 0),
+    frameDelays,
+    loop: metadata.loop ?? 0
+  };
+}
+
+// sharp only decodes the first frame of an APNG, so read the animation chunks directly
+function inspectApng(data: Buffer): StickerInspection {
+  let width = 0;
+  let height = 0;
+  let frames = 1;
+  let loop = 0;
+  const frameDelays: number[] = [];
+
+  for (let offset = 8; offset + 8 <= data.length;) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('ascii', offset + 4, offset + 8);
+    const body = offset + 8;
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(body);
+      height = data.readUInt32BE(body + 4);
+    } else if (type === 'acTL') {
+      frames = data.readUInt32BE(body);
+      loop = data.readUInt32BE(body + 4);
+    } else if (type === 'fcTL') {
+      const numerator = data.readUInt16BE(body + 20);
+      // A zero denominator means hundredths of a second
+      const denominator = data.readUInt16BE(body + 22) || 100;
+      frameDelays.push(Math.round((numerator / denominator) * 1000));
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset = body + length + 4;
+  }
+
+  return {
+    format: 'apng',
+    width,
+    height,
+    bytes: data.length,
+    animated: frames > 1,
+    frames,
+    durationMs: frameDelays.reduce((sum, delay) => sum + delay, 0),
+    frameDelays,
+    loop
+  };
+}
+
+// ffmpeg prints the stream details of its input; that is enough to check a WebM sticker
+async function inspectWebm(data: Buffer): Promise<StickerInspection> {
+  const inputPath = join(tmpdir(), `sticker_probe_${randomBytes(8).toString('hex')}.webm`);
+  await fs.writeFile(inputPath, data);
+  try {
+    const info = await new Promise<string>(resolve => {
+      // Exits non-zero because no output is given; the details are on stderr either way
+      execFile(ffmpegInstaller.path, ['-hide_banner', '-i', inputPath], (_error, _stdout, stderr) => resolve(stderr));
+    });
+
+    const duration = info.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+    const durationMs = duration
+      ? Math.round(((+duration[1] * 60 + +duration[2]) * 60 + +duration[3]) * 1000)
+      : 0;
+    const size = info.match(/Video: .*?(\d{2,5})x(\d{2,5})/);
+    const fps = parseFloat(info.match(/([\d.]+) fps/)?.[1] ?? '0');
+    const frames = Math.max(1, Math.round((durationMs / 1000) * fps));
+
+    return {
+      format: 'webm',
+      width: size ? parseInt(size[1], 10) : 0,
+      height: size ? parseInt(size[2], 10) : 0,
+      bytes: data.length,
+      animated: true,
+      frames,
+      durationMs,
+      frameDelays: [],
+      loop: 0
+    };
+  } finally {
+    await fs.unlink(inputPath).catch(() => {});
+  }
+}
+
+export async function inspectSticker(data: Buffer): Promise<StickerInspection | null> {
+  const format = detectFormat(data);
+  if (format === 'apng') return inspectApng(data);
+  if (format === 'webm') return inspectWebm(data);
+  if (format === 'webp' || format === 'png') return inspectImage(data, format);
+  return null;
+}
+
+// Check a sticker against a platform's requirements, reporting all violations rather than stopping at the first
+export async function validateSticker(
+  data: Buffer,
+  { platform, limits, formats }: StickerProfile = STICKER_PROFILES.whatsapp
+): Promise<StickerValidation> {
+  const inspection = await inspectSticker(data);
+  // A still PNG is acceptable wherever animated PNG is, and the other way round
+  const accepted = formats.flatMap(format => (format === 'png' || format === 'apng' ? ['png', 'apng'] : [format]));
+  if (!inspection || !accepted.includes(inspection.format)) {
+    return {
+      valid: false,
+      violations: [{ rule: 'format', message: `${platform} stickers must be ${formats.join(' or ').toUpperCase()}` }],
+      inspection
+    };
+  }
+
+  const { width, height, bytes, animated, frames, durationMs, frameDelays, loop } = inspection;
+  const violations: StickerViolation[] = [];
+
+  const sizeOk = limits.square
+    ? width === limits.size && height === limits.size
+    : Math.max(width, height) === limits.size && Math.min(width, height) <= limits.size;
+  if (!sizeOk) {
+    violations.push({
+      rule: 'dimensions',
+      message: limits.square
+        ? `Sticker is ${width}x${height}, must be ${limits.size}x${limits.size}`
+        : `Sticker is ${width}x${height}, its longer side must be ${limits.size}px`
+    });
+  }
+
+  if (animated && limits.maxAnimatedBytes === 0) {
+    violations.push({ rule: 'format', message: `${platform} stickers can't be animated` });
+  }
+
+  const maxBytes = animated ? limits.maxAnimatedBytes : limits.maxStaticBytes;
+  if (maxBytes > 0 && bytes > maxBytes) {
+    violations.push({
+      rule: 'size',
+      message: `${animated ? 'Animated' : 'Static'} sticker is ${Math.ceil(bytes / 1024)}KB, limit is ${maxBytes / 1024}KB`
+    });
+  }
+
+  if (animated && limits.maxAnimatedBytes > 0) {
+    if (durationMs > limits.maxDurationMs) {
+      violations.push({ rule: 'duration', message: `Animation runs ${durationMs / 1000}s, limit is ${limits.maxDurationMs / 1000}s` });
+    }
+    const frameRate = durationMs > 0 ? frames / (durationMs / 1000) : Infinity;
+    // Small allowance for rounding in container timestamps
+    if (frameRate > limits.maxFrameRate + 0.5) {
+      violations.push({ rule: 'frame-rate', message: `Animation runs at ${Math.round(frameRate)}fps, limit is ${limits.maxFrameRate}fps` });
+    }
+    const shortFrames = frameDelays.filter(delay => delay < limits.minFrameDelayMs).length;
+    if (shortFrames > 0) {
+      violations.push({ rule: 'frame-timing', message: `${shortFrames} frames last under ${limits.minFrameDelayMs}ms` });
+    }
+    if (limits.requireLoop && loop !== 0) {
+      violations.push({ rule: 'loop', message: `Animation plays ${loop} times, it must loop forever` });
+    }
+  }
+
+  return { valid: violations.length === 0, violations, inspection };
+}
@@ -0,0 +1,26 @@
+import { STORAGE_DRIVER } from '../../config.js';
+import { createLocalBlobStore } from './local.js';
+import { createS3BlobStore } from './s3.js';
+import type { BlobStore } from './types.js';
+
+export * from './types.js';
+
+const factories: Record<string, () => BlobStore> = {
+  local: () => createLocalBlobStore(),
+  s3: createS3BlobStore
+};
+
+let store: BlobStore | null = null;
+
+// Returns the store selected by STORAGE_DRIVER, created once per process
+export function getBlobStore(): BlobStore {
+  if (!store) {
+    const factory = factories[STORAGE_DRIVER];
+    if (!factory) {
+      throw new Error(`Unknown storage driver "${STORAGE_DRIVER}". Expected one of: ${Object.keys(factories).join(', ')}`);
+    }
+    store = factory();
+    console.log('Using blob store:', store.name);
+  }
+  return store;
+}
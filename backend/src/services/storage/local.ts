@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import { dirname, join, normalize } from 'path';
+import { PUBLIC_BASE_URL, UPLOADS_DIR } from '../../config.js';
+import type { BlobStore } from './types.js';
+
+// Blobs live under uploads/, which the server already serves at /uploads
+export function createLocalBlobStore(root = UPLOADS_DIR, publicPath = '/uploads'): BlobStore {
+  const resolve = (key: string) => {
+    const filePath = normalize(join(root, key));
+    if (!filePath.startsWith(normalize(root))) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data, contentType) {
+      const filePath = resolve(key);
+      await fs.mkdir(dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+      return { key, size: data.length, contentType, url: this.url(key) };
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.unlink(resolve(key)).catch(error => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    },
+
+    url(key) {
+      return `${PUBLIC_BASE_URL}${publicPath}/${key}`;
+    }
+  };
+}
@@ -0,0 +1,96 @@
+import fetch from 'node-fetch';
+import { createHash, createHmac } from 'crypto';
+import { S3_ACCESS_KEY_ID, S3_BUCKET, S3_ENDPOINT, S3_REGION, S3_SECRET_ACCESS_KEY } from '../../config.js';
+import type { BlobStore } from './types.js';
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// encodeURIComponent leaves a few characters SigV4 expects escaped
+const encodeKey = (key: string) =>
+  key.split('/').map(part =>
+    encodeURIComponent(part).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  ).join('/');
+
+// Minimal AWS Signature V4 signing, enough for single-object GET/PUT/DELETE
+function signRequest(method: string, url: URL, payloadHash: string): Record<string, string> {
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${S3_REGION}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate
+  };
+  const signedHeaders = Object.keys(headers).join(';');
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    ...Object.entries(headers).map(([name, value]) => `${name}:${value}`),
+    '',
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${S3_SECRET_ACCESS_KEY}`, date), S3_REGION)
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${S3_ACCESS_KEY_ID}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
+
+// Objects are addressed path-style so the same code works against AWS and self-hosted services
+export function createS3BlobStore(): BlobStore {
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  const objectUrl = (key: string) => new URL(`${S3_ENDPOINT}/${S3_BUCKET}/${encodeKey(key)}`);
+
+  return {
+    name: 's3',
+
+    async put(key, data, contentType) {
+      const url = objectUrl(key);
+      const response = await fetch(url.toString(), {
+        method: 'PUT',
+        headers: { ...signRequest('PUT', url, sha256(data)), 'Content-Type': contentType },
+        body: data
+      });
+      if (!response.ok) {
+        throw new Error(`S3 upload failed: ${response.status} ${await response.text()}`);
+      }
+      return { key, size: data.length, contentType, url: this.url(key) };
+    },
+
+    async get(key) {
+      const url = objectUrl(key);
+      const response = await fetch(url.toString(), { headers: signRequest('GET', url, sha256('')) });
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`S3 download failed: ${response.status} ${await response.text()}`);
+      }
+      return response.buffer();
+    },
+
+    async delete(key) {
+      const url = objectUrl(key);
+      const response = await fetch(url.toString(), { method: 'DELETE', headers: signRequest('DELETE', url, sha256('')) });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete failed: ${response.status} ${await response.text()}`);
+      }
+    },
+
+    url(key) {
+      return objectUrl(key).toString();
+    }
+  };
+}
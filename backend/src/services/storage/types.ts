@@ -0,0 +1,14 @@
+export interface StoredBlob {
+  key: string;
+  size: number;
+  contentType: string;
+  url: string;
+}
+
+export interface BlobStore {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<StoredBlob>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+}
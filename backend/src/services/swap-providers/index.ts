@@ -0,0 +1,40 @@
+import { SWAP_PROVIDER } from '../../config.js';
+import { createMockProvider } from './mock.js';
+import { createReplicateProvider } from './replicate.js';
+import type { SwapProvider, SwapTargetType } from './types.js';
+
+export * from './types.js';
+export { signWebhook, verifyWebhookSignature, type WebhookHeaders } from './webhook-signature.js';
+
+const factories: Record<string, () => SwapProvider> = {
+  replicate: createReplicateProvider,
+  mock: createMockProvider,
+};
+
+let provider: SwapProvider | null = null;
+
+// Returns the provider selected by SWAP_PROVIDER, created once per process
+export function getSwapProvider(): SwapProvider {
+  if (!provider) {
+    const factory = factories[SWAP_PROVIDER];
+    if (!factory) {
+      throw new Error(`Unknown swap provider "${SWAP_PROVIDER}". Expected one of: ${Object.keys(factories).join(', ')}`);
+    }
+    provider = factory();
+    console.log('Using swap provider:', provider.name);
+  }
+  return provider;
+}
+
+export function modelVersionFor(provider: SwapProvider, targetType: SwapTargetType = 'gif'): string {
+  return targetType === 'image' ? provider.imageModelVersion : provider.modelVersion;
+}
+
+// For callers that don't say what the target is; GIF URLs without an extension are common, still ones rare
+export function detectTargetType(url: string): SwapTargetType {
+  try {
+    return /\.(png|jpe?g|webp)$/i.test(new URL(url).pathname) ? 'image' : 'gif';
+  } catch {
+    return 'gif';
+  }
+}
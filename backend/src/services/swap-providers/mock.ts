@@ -0,0 +1,226 @@
+import fetch from 'node-fetch';
+import sharp from 'sharp';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { MOCK_SWAP_DELAY_MS, MOCK_SWAP_ERROR, PUBLIC_BASE_URL, UPLOADS_DIR, WEBHOOK_SECRET } from '../../config.js';
+import { downloadFile, loadGif, resolveMediaId } from '../media.js';
+import { signWebhook, verifyWebhookSignature, type WebhookHeaders } from './webhook-signature.js';
+import {
+  TERMINAL_STATUSES,
+  type CreateJobOptions,
+  type SwapJobInput,
+  type SwapPrediction,
+  type SwapProvider
+} from './types.js';
+
+const OUTPUT_DIR = join(UPLOADS_DIR, 'mock');
+// Fixed default so local runs and the webhook replay script agree without configuration
+export const MOCK_WEBHOOK_SECRET = WEBHOOK_SECRET || `whsec_${Buffer.from('gifswap-mock-webhook-secret').toString('base64')}`;
+const PLACEHOLDER_FRAMES = 8;
+const PLACEHOLDER_SIZE = 240;
+
+function decodeDataUrl(dataUrl: string): Buffer {
+  const base64 = dataUrl.substring(dataUrl.indexOf(',') + 1);
+  return Buffer.from(base64, 'base64');
+}
+
+// Stand-in target used when the real GIF can't be fetched (e.g. offline CI)
+async function createPlaceholderGif(): Promise<Buffer> {
+  const frames = await Promise.all(
+    Array.from({ length: PLACEHOLDER_FRAMES }, (_, i) =>
+      sharp({
+        create: {
+          width: PLACEHOLDER_SIZE,
+          height: PLACEHOLDER_SIZE,
+          channels: 4,
+          background: { r: 40 + i * 20, g: 40 + i * 20, b: 60 + i * 20, alpha: 1 }
+        }
+      }).png().toBuffer()
+    )
+  );
+
+  const strip = await sharp({
+    create: {
+      width: PLACEHOLDER_SIZE,
+      height: PLACEHOLDER_SIZE * PLACEHOLDER_FRAMES,
+      channels: 4,
+      background: { r: 0, g: 0, b: 0, alpha: 1 }
+    }
+  })
+    .composite(frames.map((input, i) => ({ input, top: i * PLACEHOLDER_SIZE, left: 0 })))
+    .raw()
+    .toBuffer();
+
+  return sharp(strip, {
+    raw: { width: PLACEHOLDER_SIZE, height: PLACEHOLDER_SIZE * PLACEHOLDER_FRAMES, channels: 4, pageHeight: PLACEHOLDER_SIZE }
+  })
+    .gif({ delay: new Array(PLACEHOLDER_FRAMES).fill(100), loop: 0 })
+    .toBuffer();
+}
+
+// Single-frame stand-in for still image targets
+function createPlaceholderImage(): Promise<Buffer> {
+  return sharp({
+    create: { width: PLACEHOLDER_SIZE, height: PLACEHOLDER_SIZE, channels: 4, background: { r: 60, g: 60, b: 80, alpha: 1 } }
+  })
+    .png()
+    .toBuffer();
+}
+
+// Targets we host under /media are read from storage, and one that has gone missing fails the job
+// rather than caching a placeholder result for its URL. Remote targets fall back to a placeholder.
+async function loadTarget(targetGifUrl: string, targetType: SwapJobInput['targetType']): Promise<Buffer> {
+  const mediaId = resolveMediaId(targetGifUrl);
+  if (mediaId) {
+    return loadGif(mediaId);
+  }
+  try {
+    return await downloadFile(targetGifUrl);
+  } catch (error) {
+    console.log('Mock provider could not fetch target, using placeholder:', error instanceof Error ? error.message : error);
+    return targetType === 'image' ? createPlaceholderImage() : createPlaceholderGif();
+  }
+}
+
+// Overlay a circular crop of the source face onto every frame of the target. Still targets come back as PNG.
+export async function renderMockSwap(sourceImage: Buffer, targetGif: Buffer, targetType: SwapJobInput['targetType'] = 'gif'): Promise<Buffer> {
+  const metadata = await sharp(targetGif, { animated: true }).metadata();
+  const width = metadata.width || PLACEHOLDER_SIZE;
+  const frameHeight = metadata.pageHeight || metadata.height || PLACEHOLDER_SIZE;
+  const pages = metadata.pages || 1;
+
+  const faceSize = Math.max(8, Math.round(Math.min(width, frameHeight) / 3));
+  const mask = Buffer.from(
+    `<svg width="${faceSize}" height="${faceSize}"><circle cx="${faceSize / 2}" cy="${faceSize / 2}" r="${faceSize / 2}"/></svg>`
+  );
+  const face = await sharp(sourceImage)
+    .resize(faceSize, faceSize, { fit: 'cover', position: sharp.strategy.attention })
+    .composite([{ input: mask, blend: 'dest-in' }])
+    .png()
+    .toBuffer();
+
+  const left = Math.round((width - faceSize) / 2);
+  const top = Math.round(frameHeight / 6);
+
+  const swapped = sharp(targetGif, { animated: targetType !== 'image' })
+    .composite(Array.from({ length: targetType === 'image' ? 1 : pages }, (_, i) => ({ input: face, left, top: i * frameHeight + top })));
+  return (targetType === 'image' ? swapped.png() : swapped.gif({ loop: 0 })).toBuffer();
+}
+
+// Deliver a signed status update the same way Replicate does
+async function deliverWebhook(webhookUrl: string, prediction: SwapPrediction): Promise<void> {
+  const body = JSON.stringify(prediction);
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...signWebhook(MOCK_WEBHOOK_SECRET, `msg_${randomBytes(8).toString('hex')}`, body) as Record<string, string>
+      },
+      body
+    });
+    if (!response.ok) {
+      console.error('Mock webhook delivery rejected:', response.status, response.statusText);
+    }
+  } catch (error) {
+    console.error('Mock webhook delivery failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+export function createMockProvider(): SwapProvider {
+  const predictions = new Map<string, SwapPrediction>();
+  const webhookUrls = new Map<string, string>();
+
+  const update = (id: string, changes: Partial<SwapPrediction>) => {
+    const current = predictions.get(id);
+    // Never move a prediction out of a terminal state (e.g. canceled mid-render)
+    if (!current || TERMINAL_STATUSES.includes(current.status)) return;
+    const next = { ...current, ...changes };
+    predictions.set(id, next);
+
+    const webhookUrl = webhookUrls.get(id);
+    if (webhookUrl) {
+      deliverWebhook(webhookUrl, next);
+    }
+  };
+
+  const run = async (id: string, input: SwapJobInput) => {
+    await new Promise(resolve => setTimeout(resolve, MOCK_SWAP_DELAY_MS / 2));
+    update(id, { status: 'processing', logs: 'Rendering mock face swap' });
+
+    try {
+      if (MOCK_SWAP_ERROR) {
+        throw new Error(MOCK_SWAP_ERROR);
+      }
+      const targetGif = await loadTarget(input.targetGifUrl, input.targetType);
+      const output = await renderMockSwap(decodeDataUrl(input.sourceImageData), targetGif, input.targetType);
+      const extension = input.targetType === 'image' ? 'png' : 'gif';
+
+      await new Promise(resolve => setTimeout(resolve, MOCK_SWAP_DELAY_MS / 2));
+      if (predictions.get(id)?.status === 'canceled') return;
+
+      await fs.mkdir(OUTPUT_DIR, { recursive: true });
+      await fs.writeFile(join(OUTPUT_DIR, `${id}.${extension}`), output);
+
+      update(id, {
+        status: 'succeeded',
+        output: `${PUBLIC_BASE_URL}/uploads/mock/${id}.${extension}`,
+        // Logs are cumulative, like Replicate's
+        logs: `Rendering mock face swap\nRendered ${output.length} bytes`
+      });
+    } catch (error) {
+      console.error('Mock swap failed:', error);
+      update(id, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  };
+
+  return {
+    name: 'mock',
+    modelVersion: 'mock:face-overlay-v1',
+    imageModelVersion: 'mock:image-face-overlay-v1',
+    // Targets hosted under /media are read straight from storage
+    fetchesTargets: false,
+
+    isConfigured() {
+      return true;
+    },
+
+    async createJob(input: SwapJobInput, { webhookUrl }: CreateJobOptions = {}) {
+      const id = `mock-${randomBytes(8).toString('hex')}`;
+      const prediction: SwapPrediction = { id, status: 'starting', output: null, error: null, logs: null };
+      predictions.set(id, prediction);
+      if (webhookUrl) {
+        webhookUrls.set(id, webhookUrl);
+      }
+      run(id, input);
+      return { ...prediction };
+    },
+
+    async getStatus(predictionId: string) {
+      const prediction = predictions.get(predictionId);
+      if (!prediction) {
+        throw new Error(`Prediction ${predictionId} not found`);
+      }
+      return { ...prediction };
+    },
+
+    async cancel(predictionId: string) {
+      const prediction = predictions.get(predictionId);
+      if (!prediction) {
+        throw new Error(`Prediction ${predictionId} not found`);
+      }
+      update(predictionId, { status: 'canceled' });
+      return { ...predictions.get(predictionId) };
+    },
+
+    async verifyWebhook(headers: WebhookHeaders, rawBody: string) {
+      return verifyWebhookSignature(MOCK_WEBHOOK_SECRET, headers, rawBody);
+    },
+
+    parseWebhook(payload: unknown) {
+      const { id, status, output = null, error = null, logs = null } = payload as SwapPrediction;
+      return { id, status, output, error, logs };
+    }
+  };
+}
@@ -0,0 +1,117 @@
+import Replicate from 'replicate';
+import {
+  REPLICATE_API_TOKEN,
+  REPLICATE_IMAGE_SWAP_MODEL,
+  REPLICATE_IMAGE_SWAP_VERSION,
+  REPLICATE_SWAP_MODEL,
+  REPLICATE_SWAP_VERSION,
+  WEBHOOK_SECRET
+} from '../../config.js';
+import { verifyWebhookSignature, type WebhookHeaders } from './webhook-signature.js';
+import type { CreateJobOptions, SwapJobInput, SwapPrediction, SwapProvider, SwapStatus } from './types.js';
+
+// The fields we read from a Replicate prediction, whether fetched from the API or posted to the webhook
+interface ReplicatePrediction {
+  id: string;
+  status: SwapStatus;
+  output?: unknown;
+  error?: unknown;
+  logs?: string | null;
+}
+
+// Replicate returns output as a URL string for this model, but some models return arrays
+function normalizeOutput(output: unknown): string | null {
+  if (!output) return null;
+  if (Array.isArray(output)) return output.length > 0 ? String(output[0]) : null;
+  return String(output);
+}
+
+// The image model names its inputs differently from the GIF one
+function predictionRequest({ sourceImageData, targetGifUrl, targetType }: SwapJobInput) {
+  if (targetType === 'image') {
+    return {
+      model: REPLICATE_IMAGE_SWAP_MODEL,
+      version: REPLICATE_IMAGE_SWAP_VERSION,
+      input: {
+        swap_image: sourceImageData,
+        input_image: targetGifUrl
+      }
+    };
+  }
+  return {
+    model: REPLICATE_SWAP_MODEL,
+    version: REPLICATE_SWAP_VERSION,
+    input: {
+      source: sourceImageData,
+      target: targetGifUrl
+    }
+  };
+}
+
+function toSwapPrediction(prediction: ReplicatePrediction): SwapPrediction {
+  return {
+    id: prediction.id,
+    status: prediction.status,
+    output: normalizeOutput(prediction.output),
+    error: prediction.error ? String(prediction.error) : null,
+    logs: prediction.logs ?? null
+  };
+}
+
+export function createReplicateProvider(): SwapProvider {
+  const replicate = new Replicate({
+    auth: REPLICATE_API_TOKEN,
+  });
+
+  // The account's signing secret is fetched once from the API unless configured explicitly
+  let webhookSecret: Promise<string> | null = null;
+  const getWebhookSecret = () => {
+    if (!webhookSecret) {
+      webhookSecret = WEBHOOK_SECRET
+        ? Promise.resolve(WEBHOOK_SECRET)
+        : replicate.webhooks.default.secret.get().then(({ key }) => key);
+      webhookSecret.catch(() => { webhookSecret = null; });
+    }
+    return webhookSecret;
+  };
+
+  return {
+    name: 'replicate',
+    modelVersion: `${REPLICATE_SWAP_MODEL}:${REPLICATE_SWAP_VERSION}`,
+    imageModelVersion: `${REPLICATE_IMAGE_SWAP_MODEL}:${REPLICATE_IMAGE_SWAP_VERSION}`,
+    fetchesTargets: true,
+
+    isConfigured() {
+      return !!REPLICATE_API_TOKEN;
+    },
+
+    async createJob(input: SwapJobInput, { webhookUrl }: CreateJobOptions = {}) {
+      const prediction = await replicate.predictions.create({
+        ...predictionRequest(input),
+        ...(webhookUrl && {
+          webhook: webhookUrl,
+          webhook_events_filter: ['start', 'logs', 'completed']
+        })
+      });
+      return toSwapPrediction(prediction);
+    },
+
+    async getStatus(predictionId: string) {
+      const prediction = await replicate.predictions.get(predictionId);
+      return toSwapPrediction(prediction);
+    },
+
+    async cancel(predictionId: string) {
+      const prediction = await replicate.predictions.cancel(predictionId);
+      return toSwapPrediction(prediction);
+    },
+
+    async verifyWebhook(headers: WebhookHeaders, rawBody: string) {
+      return verifyWebhookSignature(await getWebhookSecret(), headers, rawBody);
+    },
+
+    parseWebhook(payload: unknown) {
+      return toSwapPrediction(payload as ReplicatePrediction);
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import type { WebhookHeaders } from './webhook-signature.js';
+
+// Status values follow Replicate's prediction lifecycle so existing clients keep working
+export type SwapStatus = 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+
+// Still images are swapped by a separate model and come back as PNG or JPEG
+export type SwapTargetType = 'gif' | 'image';
+
+export interface SwapJobInput {
+  sourceImageData: string;
+  // Named for GIFs, but holds the still image's URL for image targets
+  targetGifUrl: string;
+  // Defaults to "gif"
+  targetType?: SwapTargetType;
+}
+
+export interface SwapPrediction {
+  id: string;
+  status: SwapStatus;
+  output?: string | null;
+  error?: string | null;
+  logs?: string | null;
+}
+
+export interface CreateJobOptions {
+  // Where the provider should POST status updates, if webhooks are enabled
+  webhookUrl?: string | null;
+}
+
+export interface SwapProvider {
+  name: string;
+  // Identifies the model producing outputs, so cached results are never reused across model changes
+  modelVersion: string;
+  // The same for still image targets
+  imageModelVersion: string;
+  // Whether the provider downloads target URLs itself, so targets we host must be publicly reachable
+  fetchesTargets: boolean;
+  isConfigured(): boolean;
+  createJob(input: SwapJobInput, options?: CreateJobOptions): Promise<SwapPrediction>;
+  getStatus(predictionId: string): Promise<SwapPrediction>;
+  cancel(predictionId: string): Promise<SwapPrediction>;
+  verifyWebhook(headers: WebhookHeaders, rawBody: string): Promise<boolean>;
+  parseWebhook(payload: unknown): SwapPrediction;
+}
+
+export const TERMINAL_STATUSES: SwapStatus[] = ['succeeded', 'failed', 'canceled'];
@@ -0,0 +1,53 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Replicate signs webhooks using the Standard Webhooks scheme (webhook-id / webhook-timestamp /
+// webhook-signature headers, HMAC-SHA256 over "id.timestamp.body"); the mock provider reuses it
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+// Reject deliveries whose timestamp is further than this from now, to limit replays
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+function secretKey(secret: string): Buffer {
+  // Secrets look like "whsec_<base64>"
+  return Buffer.from(secret.split('_').pop(), 'base64');
+}
+
+function header(headers: WebhookHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function computeWebhookSignature(secret: string, id: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secretKey(secret)).update(`${id}.${timestamp}.${body}`).digest('base64');
+}
+
+export function signWebhook(secret: string, id: string, body: string, timestamp = Math.floor(Date.now() / 1000)): WebhookHeaders {
+  return {
+    'webhook-id': id,
+    'webhook-timestamp': String(timestamp),
+    'webhook-signature': `v1,${computeWebhookSignature(secret, id, String(timestamp), body)}`
+  };
+}
+
+export function verifyWebhookSignature(secret: string, headers: WebhookHeaders, body: string): boolean {
+  const id = header(headers, 'webhook-id');
+  const timestamp = header(headers, 'webhook-timestamp');
+  const signatures = header(headers, 'webhook-signature');
+
+  if (!secret || !id || !timestamp || !signatures || !body) {
+    return false;
+  }
+
+  const age = Math.abs(Date.now() / 1000 - parseInt(timestamp, 10));
+  if (!Number.isFinite(age) || age > TIMESTAMP_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeWebhookSignature(secret, id, timestamp, body));
+  // The header may carry several space-separated "v1,<signature>" entries during secret rotation
+  return signatures.split(' ').some(entry => {
+    const candidate = Buffer.from(entry.split(',')[1] || '');
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+}
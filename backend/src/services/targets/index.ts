@@ -0,0 +1,102 @@
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { TARGET_MAX_DURATION_MS, TARGET_MAX_GIF_BYTES, TARGET_MAX_WIDTH } from '../../config.js';
+import { runFfmpeg, withTempFiles } from '../ffmpeg.js';
+import { loadMedia, mediaUrl, saveMedia } from '../media.js';
+import { optimizeGif } from '../optimizer/index.js';
+import type { PreparedTarget, TargetFormat } from './types.js';
+
+export * from './types.js';
+
+export const TARGET_FORMATS: TargetFormat[] = [
+  { type: 'gif', mimeTypes: ['image/gif'], extension: 'gif', video: false },
+  { type: 'mp4', mimeTypes: ['video/mp4'], extension: 'mp4', video: true },
+  { type: 'webm', mimeTypes: ['video/webm'], extension: 'webm', video: true },
+  { type: 'mov', mimeTypes: ['video/quicktime'], extension: 'mov', video: true }
+];
+
+// Plenty for reactions, and keeps the frame count the provider has to process down
+const VIDEO_FPS = 15;
+
+// Browsers don't always know a MOV's type, so the file extension is a fallback
+export function getTargetFormat(mimeType: string, fileName = ''): TargetFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return (
+    TARGET_FORMATS.find(format => format.mimeTypes.includes(mimeType)) ??
+    TARGET_FORMATS.find(format => format.extension === extension) ??
+    null
+  );
+}
+
+// Cut to the length cap and scale down to the width cap, with a palette built from the clip itself
+function videoToGif(video: Buffer, format: TargetFormat): Promise<Buffer> {
+  return withTempFiles(video, format.extension, 'gif', (inputPath, outputPath) =>
+    runFfmpeg(inputPath, outputPath, [], [
+      '-t', String(TARGET_MAX_DURATION_MS / 1000),
+      '-vf',
+      `fps=${VIDEO_FPS},scale='min(${TARGET_MAX_WIDTH},iw)':-2:flags=lanczos,` +
+        'split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=bayer:bayer_scale=3',
+      '-loop', '0',
+      '-an'
+    ])
+  );
+}
+
+// The same upload under the same limits always maps to the same ID, so repeats reuse the stored GIF
+// and hit the swap result cache
+function targetId(upload: Buffer): string {
+  const limits = `${TARGET_MAX_DURATION_MS}:${TARGET_MAX_WIDTH}:${TARGET_MAX_GIF_BYTES}`;
+  return `target-${createHash('sha256').update(upload).update(limits).digest('hex').slice(0, 32)}`;
+}
+
+async function describe(id: string, url: string, gif: Buffer, format: TargetFormat, converted: boolean): Promise<PreparedTarget> {
+  const metadata = await sharp(gif, { animated: true }).metadata();
+  const frames = metadata.pages || 1;
+  return {
+    id,
+    url,
+    data: gif,
+    sourceType: format.type,
+    converted,
+    width: metadata.width,
+    height: metadata.pageHeight || metadata.height,
+    frames,
+    durationMs: Array.from({ length: frames }, (_, i) => metadata.delay?.[i] || 100).reduce((total, delay) => total + delay, 0)
+  };
+}
+
+// Turn an uploaded GIF or clip into a GIF within the target limits and host it under /media.
+// Returns a message instead when the file can't be read.
+export async function prepareTarget(upload: Buffer, format: TargetFormat): Promise<PreparedTarget | string> {
+  const start = Date.now();
+  const id = targetId(upload);
+  const existing = await loadMedia(id);
+  if (existing) {
+    return describe(id, mediaUrl(id), existing, format, format.video || !existing.equals(upload));
+  }
+
+  let gif = upload;
+  if (format.video) {
+    try {
+      gif = await videoToGif(upload, format);
+    } catch (error) {
+      console.error('Target video conversion failed:', error instanceof Error ? error.message : error);
+      return `The ${format.type.toUpperCase()} video could not be converted`;
+    }
+  }
+  try {
+    await sharp(gif, { animated: true }).metadata();
+  } catch {
+    return 'The GIF could not be read';
+  }
+
+  const optimized = await optimizeGif(gif, {
+    maxBytes: TARGET_MAX_GIF_BYTES,
+    maxWidth: TARGET_MAX_WIDTH,
+    maxDurationMs: TARGET_MAX_DURATION_MS
+  });
+  const url = await saveMedia(id, optimized.data);
+  const target = await describe(id, url, optimized.data, format, format.video || optimized.optimized);
+  console.log(`Prepared ${format.type} target ${id}: ${upload.length} -> ${target.data.length} bytes in ${Date.now() - start}ms`);
+  return target;
+}
@@ -0,0 +1,23 @@
+export type TargetSourceType = 'gif' | 'mp4' | 'webm' | 'mov';
+
+export interface TargetFormat {
+  type: TargetSourceType;
+  mimeTypes: string[];
+  extension: string;
+  // Videos are converted with ffmpeg; GIFs only when they exceed the limits
+  video: boolean;
+}
+
+export interface PreparedTarget {
+  // Media ID the GIF is stored under; the same upload always gets the same ID
+  id: string;
+  url: string;
+  data: Buffer;
+  sourceType: TargetSourceType;
+  // False when an uploaded GIF was already within the limits and is stored as-is
+  converted: boolean;
+  width: number;
+  height: number;
+  frames: number;
+  durationMs: number;
+}
@@ -1,12 +1,13 @@
 declare module 'webp-converter' {
   export function grant_permission(): void;
   
+  // Resolves with the tool's output; failures are not rejected, so check the output file
   export function gwebp(
     inputFile: string,
     outputFile: string,
     options: string,
-    callback: (status: any, error?: any) => void
-  ): void;
+    logging?: string
+  ): Promise<string>;
   
   export function cwebp(
     inputFile: string,
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { captionSvg, validateCaption, type Caption } from '../src/services/captions/index.js';
+import { editGif, type EditResult } from '../src/services/editor/index.js';
+import { loadFixture } from './fixtures.js';
+
+// Text lines drawn by the overlay, with their font size and baseline
+function textLines(svg: string) {
+  return [...svg.matchAll(/<text [^>]*font-size="(\d+)"[^>]* y="([\d.]+)"[^>]*>([^<]*)<\/text>/g)].map(([, size, y, text]) => ({
+    size: Number(size),
+    y: Number(y),
+    text
+  }));
+}
+
+describe('validateCaption', () => {
+  it('accepts top and bottom captions and text boxes', () => {
+    assert.equal(validateCaption({ top: 'when the build', bottom: 'passes first time' }), null);
+    assert.equal(validateCaption({ boxes: [{ text: 'me', x: 0.2, y: 0.5, align: 'left', font: 'sans', colour: '#ff0' }] }), null);
+  });
+
+  it('describes the first problem', () => {
+    const cases: [unknown, string][] = [
+      [null, 'caption must be an object'],
+      [{}, 'caption needs some text'],
+      [{ top: '   ' }, 'caption needs some text'],
+      [{ top: 5 }, 'top must be a string'],
+      [{ bottom: 'x'.repeat(201) }, 'bottom must be at most 200 characters'],
+      [{ boxes: 'hello' }, 'boxes must be an array'],
+      [{ boxes: new Array(11).fill({ text: 'hi', x: 0.5, y: 0.5 }) }, 'At most 10 text boxes are allowed'],
+      [{ boxes: [{ x: 0.5, y: 0.5 }] }, 'box 1 text is required'],
+      [{ boxes: [{ text: 'hi', x: 1.5, y: 0.5 }] }, 'box 1 x and y must be from 0 to 1'],
+      [{ boxes: [{ text: 'hi', x: 0.5, y: 0.5, width: 0 }] }, 'box 1 width must be above 0 and at most 1'],
+      [{ boxes: [{ text: 'hi', x: 0.5, y: 0.5, align: 'justify' }] }, 'box 1 align must be one of: left, center, right'],
+      [{ top: 'hi', style: { font: 'comic' } }, 'style font must be one of: impact, sans, serif, mono'],
+      [{ top: 'hi', style: { size: 4 } }, 'style size must be from 8 to 400'],
+      [{ top: 'hi', style: { colour: 'red' } }, 'style colour must be a hex colour like #ffffff'],
+      [{ top: 'hi', style: { strokeWidth: 50 } }, 'style strokeWidth must be from 0 to 40'],
+      [{ top: 'hi', style: { uppercase: 'yes' } }, 'style uppercase must be true or false'],
+      [{ top: 'hi', style: 'bold' }, 'style must be an object']
+    ];
+    for (const [caption, error] of cases) {
+      assert.equal(validateCaption(caption as Caption), error, JSON.stringify(caption));
+    }
+  });
+});
+
+describe('captionSvg', () => {
+  it('draws top and bottom captions near their edges, uppercased in Impact', () => {
+    const [top, bottom] = textLines(captionSvg(320, 240, { top: 'top text', bottom: 'bottom text' }));
+    assert.equal(top.text, 'TOP TEXT');
+    assert.equal(bottom.text, 'BOTTOM TEXT');
+    assert.ok(top.y < 240 * 0.3, `top baseline at ${top.y}`);
+    assert.ok(bottom.y > 240 * 0.7 && bottom.y < 240, `bottom baseline at ${bottom.y}`);
+  });
+
+  it('wraps and shrinks long captions to fit the frame', () => {
+    const short = textLines(captionSvg(320, 240, { top: 'hi' }));
+    const long = textLines(captionSvg(320, 240, { top: 'a much longer caption that cannot possibly fit across one line of this frame' }));
+    assert.equal(short.length, 1);
+    assert.ok(long.length > 1 && long.length <= 3, `${long.length} lines`);
+    assert.ok(long[0].size < short[0].size);
+  });
+
+  it('keeps a fixed size and wraps within a text box', () => {
+    const lines = textLines(captionSvg(320, 240, { boxes: [{ text: 'one two three four five six', x: 0.5, y: 0.5, width: 0.3, size: 20, font: 'sans' }] }));
+    assert.ok(lines.length > 1);
+    assert.ok(lines.every(line => line.size === 20));
+    assert.equal(lines.map(line => line.text).join(' '), 'one two three four five six');
+  });
+
+  it('escapes markup in the text', () => {
+    const svg = captionSvg(320, 240, { top: '<b>"fish" & chips</b>', style: { uppercase: false } });
+    assert.ok(!svg.includes('<b>'));
+    assert.equal(textLines(svg).map(line => line.text).join(' '), '&#60;b&#62;&#34;fish&#34; &#38; chips&#60;/b&#62;');
+  });
+});
+
+describe('caption edit operation', () => {
+  it('draws the caption on every frame without changing the timing', async () => {
+    const gif = await loadFixture('animated.gif');
+    const result = await editGif(gif, [{ op: 'caption', top: 'hello', style: { colour: '#ff0000', strokeWidth: 0 } }]) as EditResult;
+    assert.equal(result.frames, 12);
+    assert.equal(result.durationMs, 960);
+
+    const { pages, delay } = await sharp(result.data, { animated: true }).metadata();
+    assert.equal(pages, 12);
+    assert.deepEqual(delay, new Array(12).fill(80));
+
+    // The captioned strip along the top gets redder on every frame; the rest is left alone
+    for (const page of [0, 11]) {
+      const redness = async (data: Buffer, top: number) => {
+        const pixels = await sharp(data, { page }).extract({ left: 0, top, width: 160, height: 30 }).removeAlpha().raw().toBuffer();
+        let total = 0;
+        for (let i = 0; i < pixels.length; i += 3) total += pixels[i] - pixels[i + 1];
+        return total / (pixels.length / 3);
+      };
+      assert.ok(await redness(result.data, 0) > await redness(gif, 0) + 10, `frame ${page} top`);
+      assert.ok(Math.abs(await redness(result.data, 90) - await redness(gif, 90)) < 2, `frame ${page} bottom`);
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { editGif, validateOperations, type EditOperation, type EditResult } from '../src/services/editor/index.js';
+import { loadFixture } from './fixtures.js';
+
+// The animated fixture has 12 frames of 80ms
+const FRAMES = 12;
+const DELAY_MS = 80;
+
+let gif: Buffer;
+
+before(async () => {
+  gif = await loadFixture('animated.gif');
+});
+
+async function edit(...operations: EditOperation[]): Promise<EditResult> {
+  const result = await editGif(gif, operations);
+  assert.notEqual(typeof result, 'string', String(result));
+  return result as EditResult;
+}
+
+async function timing(data: Buffer) {
+  const { pages, delay, loop } = await sharp(data, { animated: true }).metadata();
+  return { pages, delay, loop };
+}
+
+// A tiny greyscale thumbnail of each frame
+async function frameThumbnails(data: Buffer): Promise<Buffer[]> {
+  const { pages } = await sharp(data, { animated: true }).metadata();
+  return Promise.all(Array.from({ length: pages }, (_, i) =>
+    sharp(data, { page: i }).resize(16, 12, { fit: 'fill' }).greyscale().raw().toBuffer()
+  ));
+}
+
+// Which fixture frame each output frame shows, by the closest thumbnail since re-encoding shifts colours slightly
+async function sourceFrames(data: Buffer): Promise<number[]> {
+  const source = await frameThumbnails(gif);
+  const distance = (a: Buffer, b: Buffer) => a.reduce((total, value, i) => total + (value - b[i]) ** 2, 0);
+  return (await frameThumbnails(data)).map(thumbnail =>
+    source.reduce((best, candidate, i) => (distance(thumbnail, candidate) < distance(thumbnail, source[best]) ? i : best), 0)
+  );
+}
+
+const range = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+describe('editGif', () => {
+  it('trims to a frame range', async () => {
+    const result = await edit({ op: 'trim', startFrame: 2, endFrame: 8 });
+    assert.equal(result.frames, 6);
+    assert.equal(result.durationMs, 6 * DELAY_MS);
+    assert.deepEqual(await timing(result.data), { pages: 6, delay: new Array(6).fill(DELAY_MS), loop: 0 });
+    assert.deepEqual(await sourceFrames(result.data), range(2, 8));
+  });
+
+  it('trims to a time range, shortening the frames at either end', async () => {
+    const result = await edit({ op: 'trim', startMs: 100, endMs: 500 });
+    assert.equal(result.durationMs, 400);
+    assert.deepEqual((await timing(result.data)).delay, [60, 80, 80, 80, 80, 20]);
+  });
+
+  it('scales frame delays by the speed factor', async () => {
+    const faster = await edit({ op: 'speed', factor: 2 });
+    assert.deepEqual(await timing(faster.data), { pages: FRAMES, delay: new Array(FRAMES).fill(DELAY_MS / 2), loop: 0 });
+
+    const slower = await edit({ op: 'speed', factor: 0.5 });
+    assert.deepEqual((await timing(slower.data)).delay, new Array(FRAMES).fill(DELAY_MS * 2));
+  });
+
+  it('folds frames that would play too fast into the one before, keeping the duration', async () => {
+    const result = await edit({ op: 'speed', factor: 8 });
+    assert.equal(result.frames, 6);
+    assert.equal(result.durationMs, (FRAMES * DELAY_MS) / 8);
+    assert.deepEqual((await timing(result.data)).delay, new Array(6).fill(20));
+  });
+
+  it('reverses the frames', async () => {
+    const result = await edit({ op: 'reverse' });
+    assert.equal(result.frames, FRAMES);
+    assert.deepEqual(await sourceFrames(result.data), range(0, FRAMES).reverse());
+  });
+
+  it('plays forwards then backwards without repeating the turning frames', async () => {
+    const result = await edit({ op: 'boomerang' });
+    assert.equal(result.frames, FRAMES * 2 - 2);
+    assert.equal(result.durationMs, (FRAMES * 2 - 2) * DELAY_MS);
+    assert.deepEqual(await sourceFrames(result.data), [...range(0, FRAMES), ...range(1, FRAMES - 1).reverse()]);
+  });
+
+  it('sets the loop count', async () => {
+    const result = await edit({ op: 'loop', count: 3 });
+    assert.equal(result.loop, 3);
+    assert.deepEqual(await timing(result.data), { pages: FRAMES, delay: new Array(FRAMES).fill(DELAY_MS), loop: 3 });
+  });
+
+  it('applies operations in order', async () => {
+    const result = await edit({ op: 'trim', startFrame: 0, endFrame: 4 }, { op: 'boomerang' }, { op: 'speed', factor: 2 });
+    assert.deepEqual(await timing(result.data), { pages: 6, delay: new Array(6).fill(DELAY_MS / 2), loop: 0 });
+  });
+
+  it('explains an edit that leaves no frames', async () => {
+    assert.equal(await editGif(gif, [{ op: 'trim', startFrame: 20 }]), 'The trim operation left no frames');
+  });
+});
+
+describe('validateOperations', () => {
+  it('accepts a valid list', () => {
+    assert.equal(validateOperations([{ op: 'trim', startMs: 0, endMs: 500 }, { op: 'reverse' }, { op: 'loop', count: 0 }]), null);
+  });
+
+  it('names the first invalid operation', () => {
+    const cases: [unknown, string][] = [
+      [[], 'operations must be a non-empty array'],
+      [{ op: 'reverse' }, 'operations must be a non-empty array'],
+      [[{ op: 'spin' }], 'Operation 1 must have op set to one of: trim, speed, reverse, boomerang, loop, caption'],
+      [[{ op: 'trim', startFrame: 1, endMs: 200 }], 'Operation 1: trim needs startFrame/endFrame or startMs/endMs'],
+      [[{ op: 'trim', startFrame: 1.5 }], 'Operation 1: trim bounds must be whole numbers of 0 or more'],
+      [[{ op: 'trim', startFrame: 5, endFrame: 5 }], 'Operation 1: trim end must be after its start'],
+      [[{ op: 'reverse' }, { op: 'speed', factor: 20 }], 'Operation 2: speed factor must be from 0.1 to 10'],
+      [[{ op: 'loop', count: -1 }], 'Operation 1: loop count must be a whole number from 0 to 100'],
+      [new Array(21).fill({ op: 'reverse' }), 'At most 20 operations are allowed']
+    ];
+    for (const [operations, error] of cases) {
+      assert.equal(validateOperations(operations), error);
+    }
+  });
+});
@@ -0,0 +1,6 @@
+import { readFile } from 'fs/promises';
+
+// Small generated GIFs: a 12-frame 160x120 animation at 80ms a frame, and its first frame on its own
+export function loadFixture(name: 'animated.gif' | 'still.gif'): Promise<Buffer> {
+  return readFile(new URL(`./fixtures/${name}`, import.meta.url));
+}
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFixtureProvider } from '../src/services/gif-search/fixture.js';
+
+describe('fixture GIF search provider', () => {
+  const provider = createFixtureProvider();
+
+  it('matches titles, categories and tags, returning gallery Media', async () => {
+    const { items, next } = await provider.search({ q: 'shaq', limit: 10 });
+
+    assert.deepEqual(items.map(item => item.title), ['Shaq Shimmy', 'Shaq Shaking Head']);
+    assert.equal(next, null);
+    for (const item of items) {
+      assert.match(item.id, /^fixture-/);
+      assert.match(item.url, /^https:\/\//);
+      assert.equal(item.type, 'gif');
+      assert.equal(item.isAnimated, true);
+    }
+  });
+
+  it('needs every word of the query to match', async () => {
+    const { items } = await provider.search({ q: 'Surprised  cartoons', limit: 10 });
+    assert.deepEqual(items.map(item => item.title), ['Surprised Pikachu']);
+  });
+
+  it('pages through results with the next cursor', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await provider.search({ q: 'reactions', limit: 3, cursor });
+      assert.ok(page.items.length <= 3);
+      seen.push(...page.items.map(item => item.id));
+      cursor = page.next ?? undefined;
+    } while (cursor);
+
+    const { items: all } = await provider.search({ q: 'reactions', limit: 50 });
+    assert.deepEqual(seen, all.map(item => item.id));
+    assert.equal(new Set(seen).size, seen.length);
+    assert.ok(seen.length > 3);
+  });
+
+  it('returns an empty last page when nothing matches', async () => {
+    assert.deepEqual(await provider.search({ q: 'no such gif anywhere', limit: 10 }), { items: [], next: null });
+  });
+});
@@ -0,0 +1,97 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SWAP_RETRY_BASE_DELAY_MS } from '../src/config.js';
+import { isRetryableError, retryDelay } from '../src/services/jobs/retry.js';
+import { sleep, startServer, startSwap, waitFor, type TestServer } from './server.js';
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 100;
+
+interface JobState {
+  status: string;
+  attempts: number;
+  error: string | null;
+}
+
+describe('retry classification and backoff', () => {
+  it('retries provider capacity and connectivity errors', () => {
+    for (const message of ['Prediction timed out', 'Request failed with status 503', 'socket hang up', 'CUDA out of memory']) {
+      assert.equal(isRetryableError(message), true, message);
+    }
+  });
+
+  it('does not retry problems with the inputs, the account or unknown errors', () => {
+    for (const message of ['No face detected in source image', 'Unauthorized (401)', 'Invalid image', 'Something odd happened', null]) {
+      assert.equal(isRetryableError(message), false, String(message));
+    }
+  });
+
+  it('doubles the delay after each attempt, up to a minute', () => {
+    assert.deepEqual([1, 2, 3].map(retryDelay), [1, 2, 4].map(factor => SWAP_RETRY_BASE_DELAY_MS * factor));
+    assert.equal(retryDelay(20), 60_000);
+  });
+});
+
+// A server whose mock provider fails every swap with the given error
+function failingProvider(error: string) {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({
+      MOCK_SWAP_ERROR: error,
+      MOCK_SWAP_DELAY_MS: '50',
+      JOB_POLL_INTERVAL_MS: '100',
+      SWAP_MAX_ATTEMPTS: String(MAX_ATTEMPTS),
+      SWAP_RETRY_BASE_DELAY_MS: String(RETRY_BASE_DELAY_MS)
+    });
+  });
+
+  after(() => server?.stop());
+
+  return {
+    async startSwap(): Promise<string> {
+      const { jobId } = await startSwap(server.baseUrl, `${server.baseUrl}/media/retry-target.gif`);
+      return jobId;
+    },
+    async getJob(jobId: string): Promise<JobState> {
+      return (await fetch(`${server.baseUrl}/api/jobs/${jobId}`)).json();
+    }
+  };
+}
+
+describe('retries against the mock provider', () => {
+  describe('with a transient error', () => {
+    const provider = failingProvider('Prediction timed out');
+
+    it('retries the swap until it reaches the attempt limit', async () => {
+      const jobId = await provider.startSwap();
+      const job = await waitFor(async () => {
+        const state = await provider.getJob(jobId);
+        return state.status === 'failed' && state.attempts === MAX_ATTEMPTS ? state : null;
+      }, 20_000, 'the last attempt to fail');
+      assert.equal(job.error, 'Prediction timed out');
+
+      // Longer than the next backoff delay would be; nothing more is attempted
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** MAX_ATTEMPTS + 500);
+      assert.deepEqual(await provider.getJob(jobId), job);
+    });
+  });
+
+  describe('with a permanent error', () => {
+    const provider = failingProvider('No face detected in source image');
+
+    it('fails the swap after the first attempt', async () => {
+      const jobId = await provider.startSwap();
+      const job = await waitFor(async () => {
+        const state = await provider.getJob(jobId);
+        return state.status === 'failed' ? state : null;
+      }, 20_000, 'the swap to fail');
+      assert.equal(job.attempts, 1);
+
+      await sleep(RETRY_BASE_DELAY_MS * 4 + 500);
+      const later = await provider.getJob(jobId);
+      assert.equal(later.status, 'failed');
+      assert.equal(later.attempts, 1);
+    });
+  });
+});
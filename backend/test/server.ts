@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import sharp from 'sharp';
+
+const BACKEND_DIR = fileURLToPath(new URL('..', import.meta.url));
+
+export interface TestServer {
+  baseUrl: string;
+  stop(): Promise<void>;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Poll until the check returns something, or give up after timeoutMs
+export async function waitFor<T>(check: () => Promise<T | null>, timeoutMs: number, what: string): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const result = await check().catch(() => null);
+    if (result) return result;
+    await sleep(200);
+  }
+  throw new Error(`Timed out waiting for ${what}`);
+}
+
+// Run the real server with the offline mock provider and throwaway storage; env overrides the defaults
+export async function startServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const workDir = await mkdtemp(join(tmpdir(), 'gifswap-test-'));
+  const port = await freePort();
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+    cwd: BACKEND_DIR,
+    env: {
+      ...process.env,
+      PORT: String(port),
+      HOST: '127.0.0.1',
+      PUBLIC_BASE_URL: baseUrl,
+      WEBHOOKS_ENABLED: 'false',
+      SWAP_PROVIDER: 'mock',
+      MOCK_SWAP_DELAY_MS: '200',
+      MOCK_SWAP_ERROR: '',
+      STORAGE_DRIVER: 'local',
+      DATA_DIR: join(workDir, 'data'),
+      UPLOADS_DIR: join(workDir, 'uploads'),
+      ...env
+    },
+    stdio: 'ignore'
+  });
+
+  const stop = async () => {
+    child.kill();
+    await rm(workDir, { recursive: true, force: true });
+  };
+  try {
+    await waitFor(async () => (await fetch(`${baseUrl}/health`)).ok || null, 30_000, 'the server to start');
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+  return { baseUrl, stop };
+}
+
+// Start a swap of a plain skin-toned "face" into the target
+export async function startSwap(baseUrl: string, targetGifUrl: string) {
+  const face = await sharp({ create: { width: 200, height: 240, channels: 3, background: '#e0ac8a' } }).jpeg().toBuffer();
+  const response = await fetch(`${baseUrl}/api/swap`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sourceImageData: `data:image/jpeg;base64,${face.toString('base64')}`, targetGifUrl })
+  });
+  assert.equal(response.status, 200);
+  return response.json();
+}
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { createSticker, readStickerMetadata, writeStickerMetadata, type StickerMetadata } from '../src/services/stickers/index.js';
+import { loadFixture } from './fixtures.js';
+
+const metadata: StickerMetadata = {
+  packId: 'gifswap-0123456789abcdef',
+  packName: 'Reaction Faces ✨',
+  publisher: 'Zoë',
+  emojis: ['😂', '🔥']
+};
+
+// The first RIFF chunk after the header: VP8 (lossy), VP8L (lossless) or VP8X (extended)
+const firstChunk = (webp: Buffer) => webp.toString('ascii', 12, 16);
+const countChunks = (webp: Buffer, fourCC: string) => webp.toString('latin1').split(fourCC).length - 1;
+
+async function assertRoundTrip(webp: Buffer) {
+  const tagged = writeStickerMetadata(webp, metadata);
+
+  assert.deepEqual(readStickerMetadata(tagged), metadata);
+  assert.equal(firstChunk(tagged), 'VP8X');
+  assert.equal(tagged.readUInt32LE(4), tagged.length - 8, 'RIFF size covers the whole file');
+
+  // The image itself is untouched
+  const before = await sharp(webp, { animated: true }).metadata();
+  const after = await sharp(tagged, { animated: true }).metadata();
+  assert.equal(after.width, before.width);
+  assert.equal(after.pageHeight ?? after.height, before.pageHeight ?? before.height);
+  assert.equal(after.pages ?? 1, before.pages ?? 1);
+  assert.equal(after.hasAlpha, before.hasAlpha);
+  return tagged;
+}
+
+describe('sticker EXIF metadata', () => {
+  it('round-trips through an animated WebP', async () => {
+    const webp = await sharp(await loadFixture('animated.gif'), { animated: true }).webp({ quality: 80, loop: 0 }).toBuffer();
+    assert.equal(firstChunk(webp), 'VP8X');
+
+    const tagged = await assertRoundTrip(webp);
+    assert.equal((await sharp(tagged, { animated: true }).metadata()).pages, 12);
+  });
+
+  it('round-trips through a lossy WebP, adding the extended header it needs', async () => {
+    const webp = await sharp(await loadFixture('still.gif')).webp({ quality: 75 }).toBuffer();
+    assert.equal(firstChunk(webp), 'VP8 ');
+
+    await assertRoundTrip(webp);
+  });
+
+  it('round-trips through a lossless WebP with transparency', async () => {
+    const webp = await sharp(await loadFixture('still.gif'))
+      .resize(512, 512, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .webp({ lossless: true })
+      .toBuffer();
+    assert.equal(firstChunk(webp), 'VP8L');
+
+    await assertRoundTrip(webp);
+  });
+
+  it('replaces existing metadata instead of adding a second EXIF chunk', async () => {
+    const webp = await sharp(await loadFixture('still.gif')).webp().toBuffer();
+    const retagged = writeStickerMetadata(writeStickerMetadata(webp, metadata), { ...metadata, packName: 'Renamed', emojis: [] });
+
+    assert.equal(countChunks(retagged, 'EXIF'), 1);
+    assert.deepEqual(readStickerMetadata(retagged), { ...metadata, packName: 'Renamed', emojis: [] });
+  });
+
+  it('reads nothing from a WebP without metadata', async () => {
+    const webp = await sharp(await loadFixture('still.gif')).webp().toBuffer();
+    assert.equal(readStickerMetadata(webp), null);
+  });
+
+  it('is embedded in WhatsApp stickers made by createSticker', async () => {
+    const sticker = await createSticker(await loadFixture('animated.gif'), { metadata });
+    assert.deepEqual(readStickerMetadata(sticker.data), metadata);
+  });
+});
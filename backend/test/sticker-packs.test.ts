@@ -0,0 +1,79 @@
+import { TEMP_DIR } from './temp-env.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rm } from 'fs/promises';
+import type { Server } from 'http';
+import express from 'express';
+import sharp from 'sharp';
+import stickerPackRoutes from '../src/routes/sticker-packs.js';
+import { saveMedia } from '../src/services/media.js';
+import { addPackSticker, createPack, exportPack, mismatchedStickers } from '../src/services/sticker-packs/index.js';
+import { loadFixture } from './fixtures.js';
+
+// Swap outputs as the gallery stores them: a GIF for animated targets and a PNG for still images
+before(async () => {
+  await saveMedia('pack-gif', await loadFixture('animated.gif'));
+  await saveMedia('pack-still', await sharp(await loadFixture('still.gif')).png().toBuffer(), 'image/png');
+});
+
+after(() => rm(TEMP_DIR, { recursive: true, force: true }));
+
+describe('mixed sticker packs', () => {
+  it('refuses to export a pack of one GIF and one still to WhatsApp', async () => {
+    const pack = await createPack('Mixed', 'Tests');
+    const gif = await addPackSticker(pack, 'pack-gif');
+    const still = await addPackSticker(pack, 'pack-still');
+
+    assert.equal(gif.animated, true);
+    assert.equal(still.animated, false);
+    assert.deepEqual(mismatchedStickers(pack).map(sticker => sticker.id), [still.id]);
+    await assert.rejects(exportPack(pack, 'wastickers'), /all animated or all static/);
+  });
+
+  it('treats packs of one kind as uniform', async () => {
+    const pack = await createPack('Animated', 'Tests');
+    await addPackSticker(pack, 'pack-gif');
+    await addPackSticker(pack, 'pack-gif');
+
+    assert.deepEqual(mismatchedStickers(pack), []);
+    const exported = await exportPack(pack, 'wastickers');
+    assert.ok(exported.data.includes('"animated_sticker_pack": true'));
+  });
+
+  describe('export route', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    before(async () => {
+      const app = express();
+      app.use(express.json());
+      app.use('/api/stickers/packs', stickerPackRoutes);
+      server = await new Promise(resolve => {
+        const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+      });
+      baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}/api/stickers/packs`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    it('answers 400 and lists the stickers that differ from the rest', async () => {
+      const createResponse = await fetch(baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: 'Reactions',
+          publisher: 'Tests',
+          stickers: [{ mediaId: 'pack-gif' }, { mediaId: 'pack-still' }, { mediaId: 'pack-gif' }]
+        })
+      });
+      assert.equal(createResponse.status, 200);
+      const { pack } = await createResponse.json();
+
+      const exportResponse = await fetch(`${baseUrl}/${pack.id}/export?format=wastickers`);
+      assert.equal(exportResponse.status, 400);
+      const body = await exportResponse.json();
+      assert.match(body.error, /1 of the 3 stickers are static/);
+      assert.deepEqual(body.stickers, [{ id: pack.stickers[1].id, source: 'pack-still', animated: false }]);
+    });
+  });
+});
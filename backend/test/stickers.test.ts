@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createSticker,
+  FIX_STEPS,
+  STICKER_PROFILES,
+  type StickerProfile,
+  type StickerStrategy
+} from '../src/services/stickers/index.js';
+import { sharpAnimated } from '../src/services/stickers/strategies.js';
+import { loadFixture } from './fixtures.js';
+
+const whatsapp = STICKER_PROFILES.whatsapp;
+
+const withBudget = (maxBytes: number): StickerProfile => ({
+  ...whatsapp,
+  limits: { ...whatsapp.limits, maxAnimatedBytes: maxBytes, maxStaticBytes: maxBytes }
+});
+
+const broken: StickerStrategy = {
+  name: 'broken',
+  format: 'webp',
+  animated: true,
+  async convert() {
+    throw new Error('encoder missing');
+  }
+};
+
+describe('createSticker', () => {
+  it('makes a compliant animated WhatsApp sticker with the first strategy', async () => {
+    const sticker = await createSticker(await loadFixture('animated.gif'));
+
+    assert.equal(sticker.strategy, 'sharp-animated');
+    assert.equal(sticker.format, 'webp');
+    assert.equal(sticker.animated, true);
+    assert.deepEqual(sticker.step, FIX_STEPS[0]);
+    assert.deepEqual(sticker.attempts, []);
+    assert.equal(sticker.validation.valid, true);
+    assert.equal(sticker.validation.inspection.width, 512);
+    assert.equal(sticker.validation.inspection.height, 512);
+    assert.equal(sticker.validation.inspection.frames, 12);
+  });
+
+  it('walks down the fix ladder until the sticker fits the size budget', async () => {
+    const maxBytes = 10 * 1024;
+    const sticker = await createSticker(await loadFixture('animated.gif'), { profile: withBudget(maxBytes) });
+
+    assert.ok(sticker.data.length <= maxBytes, `${sticker.data.length} bytes is over the budget`);
+    // Quality alone isn't enough for this budget, so frames had to be dropped
+    assert.ok(sticker.step.frameStep > 1);
+    assert.ok(sticker.validation.inspection.frames < 12);
+    assert.equal(sticker.animated, true);
+    assert.ok(sticker.attempts.length > 0);
+    for (const attempt of sticker.attempts) {
+      assert.equal(attempt.strategy, 'sharp-animated');
+      assert.match(attempt.error, /size|bytes|KB/i);
+    }
+  });
+
+  it('falls back to the next strategy and reports which one produced the sticker', async () => {
+    const sticker = await createSticker(await loadFixture('animated.gif'), { strategies: [broken, sharpAnimated] });
+
+    assert.equal(sticker.strategy, 'sharp-animated');
+    assert.equal(sticker.attempts.length, 1);
+    assert.equal(sticker.attempts[0].strategy, 'broken');
+    assert.equal(sticker.attempts[0].error, 'encoder missing');
+  });
+
+  it('makes a static sticker from a single-frame GIF', async () => {
+    const sticker = await createSticker(await loadFixture('still.gif'));
+
+    assert.equal(sticker.animated, false);
+    assert.equal(sticker.validation.valid, true);
+    assert.ok(sticker.data.length <= whatsapp.limits.maxStaticBytes);
+  });
+
+  it('fails with every attempt listed when no strategy can meet the budget', async () => {
+    await assert.rejects(
+      createSticker(await loadFixture('animated.gif'), { profile: withBudget(100) }),
+      /No sticker strategy succeeded: sharp-animated/
+    );
+  });
+});
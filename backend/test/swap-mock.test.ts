@@ -0,0 +1,67 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { loadFixture } from './fixtures.js';
+import { startServer, startSwap, waitFor, type TestServer } from './server.js';
+
+// The whole swap flow against a real server using the offline mock provider: upload a target,
+// start a swap, poll its status and fetch the stored output
+describe('swap flow with the mock provider', () => {
+  let server: TestServer;
+  let baseUrl: string;
+
+  before(async () => {
+    server = await startServer();
+    baseUrl = server.baseUrl;
+  });
+
+  after(() => server?.stop());
+
+  it('swaps a face into an uploaded GIF and serves the result', async () => {
+    const form = new FormData();
+    form.append('target', new Blob([await loadFixture('animated.gif')], { type: 'image/gif' }), 'target.gif');
+    const uploadResponse = await fetch(`${baseUrl}/api/upload-target`, { method: 'POST', body: form });
+    assert.equal(uploadResponse.status, 200);
+    const target = await uploadResponse.json();
+    assert.equal(target.frames, 12);
+
+    const swap = () => startSwap(baseUrl, target.url);
+
+    const started = await swap();
+    assert.equal(started.success, true);
+    assert.equal(started.cache.hit, false);
+
+    const finished = await waitFor(async () => {
+      const status = await (await fetch(`${baseUrl}/api/swap/status/${started.predictionId}`)).json();
+      assert.notEqual(status.status, 'failed', status.error);
+      return status.status === 'succeeded' ? status : null;
+    }, 20_000, 'the swap to finish');
+    assert.equal(finished.jobId, started.jobId);
+    assert.equal(finished.output, `${baseUrl}/media/${started.jobId}.gif`);
+
+    const outputResponse = await fetch(finished.output);
+    assert.equal(outputResponse.headers.get('content-type'), 'image/gif');
+    const output = Buffer.from(await outputResponse.arrayBuffer());
+    const metadata = await sharp(output, { animated: true }).metadata();
+    assert.equal(metadata.pages, 12);
+    assert.equal(metadata.width, 160);
+
+    // The same face and target again come straight from the result cache
+    const repeated = await swap();
+    assert.equal(repeated.cache.hit, true);
+    assert.equal(repeated.status, 'succeeded');
+    const cachedStatus = await (await fetch(`${baseUrl}/api/swap/status/${repeated.predictionId}`)).json();
+    assert.equal(cachedStatus.id, repeated.jobId);
+    const cachedOutput = Buffer.from(await (await fetch(repeated.output)).arrayBuffer());
+    assert.ok(cachedOutput.equals(output));
+  });
+
+  it('fails the swap when a hosted target is missing instead of using a placeholder', async () => {
+    const started = await startSwap(baseUrl, `${baseUrl}/media/missing-target.gif`);
+    const failed = await waitFor(async () => {
+      const status = await (await fetch(`${baseUrl}/api/swap/status/${started.predictionId}`)).json();
+      return status.status === 'failed' ? status : null;
+    }, 20_000, 'the swap to fail');
+    assert.match(failed.error, /missing-target not found/);
+  });
+});
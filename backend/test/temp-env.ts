@@ -0,0 +1,12 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Import before anything that reads config, so stored files and JSON state go to a throwaway directory
+// and swaps use the offline mock provider
+export const TEMP_DIR = mkdtempSync(join(tmpdir(), 'gifswap-test-'));
+
+process.env.STORAGE_DRIVER = 'local';
+process.env.SWAP_PROVIDER = 'mock';
+process.env.DATA_DIR = join(TEMP_DIR, 'data');
+process.env.UPLOADS_DIR = join(TEMP_DIR, 'uploads');
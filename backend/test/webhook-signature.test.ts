@@ -0,0 +1,97 @@
+import { TEMP_DIR } from './temp-env.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rm } from 'fs/promises';
+import type { Server } from 'http';
+import express from 'express';
+import webhookRoutes from '../src/routes/webhooks.js';
+import { MOCK_WEBHOOK_SECRET } from '../src/services/swap-providers/mock.js';
+import {
+  computeWebhookSignature,
+  signWebhook,
+  verifyWebhookSignature
+} from '../src/services/swap-providers/webhook-signature.js';
+
+const SECRET = `whsec_${Buffer.from('test-webhook-secret').toString('base64')}`;
+const OLD_SECRET = `whsec_${Buffer.from('retired-webhook-secret').toString('base64')}`;
+const BODY = JSON.stringify({ id: 'prediction-1', status: 'succeeded', output: 'https://example.com/out.gif' });
+
+const now = () => Math.floor(Date.now() / 1000);
+
+after(() => rm(TEMP_DIR, { recursive: true, force: true }));
+
+describe('verifyWebhookSignature', () => {
+  it('accepts a delivery signed with the secret', () => {
+    assert.equal(verifyWebhookSignature(SECRET, signWebhook(SECRET, 'msg_1', BODY), BODY), true);
+  });
+
+  it('rejects a body changed after signing', () => {
+    const headers = signWebhook(SECRET, 'msg_1', BODY);
+    assert.equal(verifyWebhookSignature(SECRET, headers, BODY.replace('succeeded', 'failed')), false);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    assert.equal(verifyWebhookSignature(SECRET, signWebhook(OLD_SECRET, 'msg_1', BODY), BODY), false);
+  });
+
+  it('rejects timestamps more than 5 minutes away', () => {
+    assert.equal(verifyWebhookSignature(SECRET, signWebhook(SECRET, 'msg_1', BODY, now() - 6 * 60), BODY), false);
+    assert.equal(verifyWebhookSignature(SECRET, signWebhook(SECRET, 'msg_1', BODY, now() + 6 * 60), BODY), false);
+    assert.equal(verifyWebhookSignature(SECRET, signWebhook(SECRET, 'msg_1', BODY, now() - 4 * 60), BODY), true);
+  });
+
+  it('accepts any of several space-separated signatures during secret rotation', () => {
+    const timestamp = String(now());
+    const headers = {
+      'webhook-id': 'msg_1',
+      'webhook-timestamp': timestamp,
+      'webhook-signature': [OLD_SECRET, SECRET].map(secret => `v1,${computeWebhookSignature(secret, 'msg_1', timestamp, BODY)}`).join(' ')
+    };
+    assert.equal(verifyWebhookSignature(SECRET, headers, BODY), true);
+    assert.equal(verifyWebhookSignature(OLD_SECRET, headers, BODY), true);
+    assert.equal(verifyWebhookSignature(`whsec_${Buffer.from('unrelated').toString('base64')}`, headers, BODY), false);
+  });
+
+  it('rejects deliveries missing a signature header', () => {
+    const headers = signWebhook(SECRET, 'msg_1', BODY);
+    for (const name of ['webhook-id', 'webhook-timestamp', 'webhook-signature']) {
+      assert.equal(verifyWebhookSignature(SECRET, { ...headers, [name]: undefined }, BODY), false, name);
+    }
+  });
+});
+
+describe('webhook route', () => {
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    const app = express();
+    app.use('/api', webhookRoutes);
+    server = await new Promise(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    url = `http://127.0.0.1:${(server.address() as { port: number }).port}/api/webhooks/provider`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const deliver = (headers: Record<string, string>, body = BODY) =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+
+  it('answers 401 to a delivery with a bad signature', async () => {
+    const headers = signWebhook(MOCK_WEBHOOK_SECRET, 'msg_1', BODY) as Record<string, string>;
+    const response = await deliver({ ...headers, 'webhook-signature': 'v1,bm90IHRoZSBzaWduYXR1cmU=' });
+    assert.equal(response.status, 401);
+    assert.deepEqual(await response.json(), { error: 'Invalid webhook signature' });
+  });
+
+  it('answers 401 to an unsigned delivery', async () => {
+    assert.equal((await deliver({})).status, 401);
+  });
+
+  it('accepts a signed delivery', async () => {
+    const response = await deliver(signWebhook(MOCK_WEBHOOK_SECRET, 'msg_1', BODY) as Record<string, string>);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { received: true, ignored: true });
+  });
+});
@@ -7,13 +7,35 @@ import EnhancedResultDisplay from './components/EnhancedResultDisplay';
 import { MotionTrackingProvider } from './components/MotionTrackingProvider';
 import { MotionButton } from './components/ui/motion-button';
 import { API_BASE_URL } from './config';
+import type { Media } from './lib/media';
 
 type AppState = 'selectGifs' | 'selectMode' | 'upload' | 'individualUpload' | 'processing' | 'result';
 type UploadMode = 'single' | 'individual';
 
+interface BatchStatus {
+  batchId: string;
+  status: 'processing' | 'completed';
+  total: number;
+  completed: number;
+  progress: number;
+  jobs: {
+    id: string;
+    index: number;
+    status: string;
+    targetType: Media['type'];
+    progress: number;
+    output: string | null;
+    error: string | null;
+  }[];
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+
 function App() {
   const [appState, setAppState] = useState<AppState>('selectGifs');
   const [selectedGifs, setSelectedGifs] = useState<string[]>([]);
+  // Still images are swapped by a different model, so the server needs to know which targets they are
+  const [targetTypes, setTargetTypes] = useState<Record<string, Media['type']>>({});
   const [, setUploadMode] = useState<UploadMode>('single');
   const [, setUploadedImageData] = useState<string>('');
   const [, setFaceMapping] = useState<Record<string, string>>({});
@@ -22,9 +44,17 @@ function App() {
   const [processingStatus, setProcessingStatus] = useState<string>('');
   const [progress, setProgress] = useState<number>(0);
   const [completedCount, setCompletedCount] = useState(0);
-  const pollIntervalRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [resultJobs, setResultJobs] = useState<BatchStatus['jobs']>([]);
+  const batchIdRef = useRef<string | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Closes the progress stream and settles the promise watchBatch returned
+  const stopWatchingRef = useRef<(() => void) | null>(null);
 
-  const handleGifSelect = (gifUrl: string) => {
+  const handleGifSelect = (gifUrl: string, media?: Media) => {
+    if (media) {
+      setTargetTypes(prev => ({ ...prev, [gifUrl]: media.type }));
+    }
     setSelectedGifs(prev => {
       if (prev.includes(gifUrl)) {
         return prev.filter(url => url !== gifUrl);
@@ -53,58 +83,17 @@ function App() {
   const processAllGifSwaps = async (imageData: string) => {
     console.log('=== PROCESSING MULTIPLE GIF SWAPS ===');
     console.log('Processing', selectedGifs.length, 'GIFs');
-    
-    setIsProcessing(true);
-    setProcessingStatus('starting');
-    setProgress(0);
-    setCompletedCount(0);
-    
-    // Initialize results array with placeholders
-    const results: (string | null)[] = new Array(selectedGifs.length).fill(null);
-    setResultGifUrls(results);
-    
-    for (let i = 0; i < selectedGifs.length; i++) {
-      const gifUrl = selectedGifs[i];
-      setProcessingStatus(`Processing GIF ${i + 1} of ${selectedGifs.length}`);
-      
-      try {
-        console.log(`=== PROCESSING GIF ${i + 1} ===`);
-        const result = await processGifSwap(imageData, gifUrl);
-        console.log(`=== GIF ${i + 1} COMPLETED ===`, result);
-        
-        // Update specific index in results array
-        setResultGifUrls(prev => {
-          const newResults = [...prev];
-          newResults[i] = result;
-          return newResults;
-        });
-        
-        setCompletedCount(i + 1);
-        setProgress(((i + 1) / selectedGifs.length) * 100);
-        
-        // Navigate to result view after first completion
-        if (i === 0) {
-          setAppState('result');
-        }
-      } catch (error) {
-        console.error(`Failed to process GIF ${i + 1}:`, error);
-        // Update with empty string to indicate failure
-        setResultGifUrls(prev => {
-          const newResults = [...prev];
-          newResults[i] = '';
-          return newResults;
-        });
-      }
-    }
-    
-    console.log('=== ALL PROCESSING COMPLETED ===');
-    setIsProcessing(false);
+    await processBatch({ sourceImageData: imageData });
   };
 
   const processAllGifSwapsWithIndividualFaces = async (faces: Record<string, string>) => {
     console.log('=== PROCESSING MULTIPLE GIF SWAPS WITH INDIVIDUAL FACES ===');
     console.log('Processing', selectedGifs.length, 'GIFs with individual faces');
-    
+    await processBatch({ faces });
+  };
+
+  // Send every selected GIF to the server in one request; the server runs them and reports progress
+  const processBatch = async (source: { sourceImageData?: string; faces?: Record<string, string> }) => {
     setIsProcessing(true);
     setProcessingStatus('starting');
     setProgress(0);
@@ -113,140 +102,176 @@ function App() {
     // Initialize results array with placeholders
     const results: (string | null)[] = new Array(selectedGifs.length).fill(null);
     setResultGifUrls(results);
+    setResultJobs([]);
     
-    for (let i = 0; i < selectedGifs.length; i++) {
-      const gifUrl = selectedGifs[i];
-      const faceData = faces[gifUrl];
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/swap/batch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...source, targetGifUrls: selectedGifs, targetTypes }),
+      });
       
-      if (!faceData) {
-        console.error(`No face data found for GIF: ${gifUrl}`);
-        // Update with empty string to indicate failure
-        setResultGifUrls(prev => {
-          const newResults = [...prev];
-          newResults[i] = '';
-          return newResults;
-        });
-        continue;
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
       
-      setProcessingStatus(`Processing GIF ${i + 1} of ${selectedGifs.length}`);
+      const data = await response.json();
       
-      try {
-        console.log(`=== PROCESSING GIF ${i + 1} WITH INDIVIDUAL FACE ===`);
-        const result = await processGifSwap(faceData, gifUrl);
-        console.log(`=== GIF ${i + 1} COMPLETED ===`, result);
-        
-        // Update specific index in results array
-        setResultGifUrls(prev => {
-          const newResults = [...prev];
-          newResults[i] = result;
-          return newResults;
-        });
-        
-        setCompletedCount(i + 1);
-        setProgress(((i + 1) / selectedGifs.length) * 100);
-        
-        // Navigate to result view after first completion
-        if (i === 0) {
-          setAppState('result');
-        }
-      } catch (error) {
-        console.error(`Failed to process GIF ${i + 1}:`, error);
-        // Update with empty string to indicate failure
-        setResultGifUrls(prev => {
-          const newResults = [...prev];
-          newResults[i] = '';
-          return newResults;
-        });
+      if (!data.success || !data.batchId) {
+        throw new Error(data.error || 'Face swap failed');
       }
+      
+      batchIdRef.current = data.batchId;
+      await watchBatch(data.batchId);
+    } catch (error) {
+      console.error('Batch processing failed:', error);
+      // Mark every reaction as failed
+      setResultGifUrls(new Array(selectedGifs.length).fill(''));
+      setAppState('result');
     }
     
     console.log('=== ALL PROCESSING COMPLETED ===');
     setIsProcessing(false);
   };
   
-  const processGifSwap = async (imageData: string, gifUrl: string): Promise<string> => {
-    console.log('=== PROCESSING SINGLE GIF SWAP ===');
-    console.log('GIF URL:', gifUrl);
-    
-    const requestBody = {
-      sourceImageData: imageData,
-      targetGifUrl: gifUrl,
-    };
-    
-    const response = await fetch(`${API_BASE_URL}/api/swap`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
+  const applyBatchStatus = (data: BatchStatus) => {
+    // Successful jobs show their output, finished-but-unsuccessful ones show as failed
+    setResultGifUrls(data.jobs.map(job => {
+      if (job.status === 'succeeded') return job.output;
+      if (job.status === 'failed' || job.status === 'canceled') return '';
+      return null;
+    }));
+    setResultJobs(data.jobs);
+    setCompletedCount(data.completed);
+    setProgress(data.progress);
+    setProcessingStatus(`Processing GIF ${Math.min(data.completed + 1, data.total)} of ${data.total}`);
     
-    if (!data.success || !data.predictionId) {
-      throw new Error(data.error || 'Face swap failed');
+    // Navigate to result view after first completion
+    if (data.completed > 0) {
+      setAppState('result');
     }
-    
-    // Poll for completion
-    return await pollPredictionStatus(data.predictionId);
   };
   
-  const pollPredictionStatus = async (predictionId: string): Promise<string> => {
-    console.log('=== FRONTEND POLLING START ===');
-    console.log('Polling for prediction:', predictionId);
+  // Follow batch progress over Server-Sent Events, reconnecting if the stream is closed. Resolves once the
+  // batch is done or stopWatchingRef tears the stream down, so whoever awaits it always gets to finish.
+  const watchBatch = (batchId: string): Promise<void> => {
+    console.log('Watching batch:', batchId);
     
     return new Promise((resolve, reject) => {
-      const poll = async () => {
-        try {
-          console.log('Making poll request for:', predictionId);
-          const response = await fetch(`${API_BASE_URL}/api/swap/status/${predictionId}`);
-          
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      let reconnectAttempts = 0;
+      
+      const stop = () => {
+        if (reconnectTimeoutRef.current) {
+          clearTimeout(reconnectTimeoutRef.current);
+          reconnectTimeoutRef.current = null;
+        }
+        eventSourceRef.current?.close();
+        eventSourceRef.current = null;
+        stopWatchingRef.current = null;
+      };
+      stopWatchingRef.current = () => {
+        stop();
+        resolve();
+      };
+      
+      const connect = () => {
+        const source = new EventSource(`${API_BASE_URL}/api/swap/batch/${batchId}/events`);
+        eventSourceRef.current = source;
+        
+        source.addEventListener('batch', (event) => {
+          reconnectAttempts = 0;
+          applyBatchStatus(JSON.parse((event as MessageEvent).data));
+        });
+        
+        source.addEventListener('done', () => {
+          stop();
+          resolve();
+        });
+        
+        source.onerror = () => {
+          // EventSource retries dropped connections itself; only a closed stream needs a manual reconnect
+          if (source.readyState !== EventSource.CLOSED) {
+            return;
           }
-          
-          const data = await response.json();
-          console.log('Poll response:', data);
-          
-          if (data.status === 'succeeded') {
-            console.log('SUCCESS! Resolving with output:', data.output);
-            resolve(data.output);
-          } else if (data.status === 'failed') {
-            console.log('FAILED! Rejecting with error:', data.error);
-            reject(new Error(data.error || 'Face swap failed'));
-          } else if (data.status === 'canceled') {
-            console.log('CANCELED! Rejecting');
-            reject(new Error('Face swap was canceled'));
-          } else {
-            console.log('Still processing, will poll again in 3 seconds. Status:', data.status);
-            setTimeout(poll, 3000);
+          if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+            stop();
+            reject(new Error('Lost connection to the progress stream'));
+            return;
           }
-        } catch (error) {
-          console.error('Poll error:', error);
-          reject(error);
-        }
+          reconnectAttempts++;
+          console.log('Progress stream closed, reconnecting. Attempt', reconnectAttempts);
+          reconnectTimeoutRef.current = setTimeout(connect, 1000 * 2 ** reconnectAttempts);
+        };
       };
       
-      poll();
+      connect();
     });
   };
 
 
+  const handleRetry = async (index: number) => {
+    const job = resultJobs[index];
+    if (!job) return;
+    
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/swap/${job.id}/retry`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      
+      // Show the tile as loading again straight away
+      setResultGifUrls(prev => {
+        const newResults = [...prev];
+        newResults[index] = null;
+        return newResults;
+      });
+      
+      // The batch stream closes once everything has finished, so reopen it to follow the retry
+      if (!eventSourceRef.current && batchIdRef.current) {
+        setIsProcessing(true);
+        await watchBatch(batchIdRef.current).catch(error => console.error('Retry watch failed:', error));
+        setIsProcessing(false);
+      }
+    } catch (error) {
+      console.error('Retry failed:', error);
+      alert('Failed to retry this reaction. Please try again.');
+    }
+  };
+
+  const handleCancel = async (index: number) => {
+    const job = resultJobs[index];
+    if (!job) return;
+    
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/swap/${job.id}/cancel`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      // The batch event stream delivers the canceled status
+    } catch (error) {
+      console.error('Cancel failed:', error);
+      alert('Failed to cancel this reaction. Please try again.');
+    }
+  };
+
   const handleReset = () => {
-    if (pollIntervalRef.current) {
-      clearInterval(pollIntervalRef.current);
+    // Stop anything still running on the server so it isn't processed (and billed) for nothing
+    if (isProcessing && batchIdRef.current) {
+      fetch(`${API_BASE_URL}/api/swap/batch/${batchIdRef.current}/cancel`, { method: 'POST' })
+        .catch(error => console.error('Failed to cancel batch:', error));
     }
+    batchIdRef.current = null;
+    stopWatchingRef.current?.();
     setAppState('selectGifs');
     setSelectedGifs([]);
+    setTargetTypes({});
     setUploadMode('single');
     setUploadedImageData('');
     setFaceMapping({});
     setResultGifUrls([]);
+    setResultJobs([]);
     setIsProcessing(false);
     setProcessingStatus('');
     setProgress(0);
@@ -566,6 +591,9 @@ function App() {
               >
                 <EnhancedResultDisplay
                   resultGifUrls={resultGifUrls}
+                  resultJobs={resultJobs}
+                  onCancel={handleCancel}
+                  onRetry={handleRetry}
                   selectedGifs={selectedGifs}
                   onReset={handleReset}
                   isProcessing={isProcessing}
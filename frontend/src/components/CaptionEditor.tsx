@@ -0,0 +1,283 @@
+import { useEffect, useState, type MouseEvent } from 'react';
+import { motion } from 'framer-motion';
+import { MotionButton } from './ui/motion-button';
+import { API_BASE_URL } from '../config';
+
+// Fonts the caption renderer on the server knows about
+const CAPTION_FONTS = [
+  { font: 'impact', label: 'Impact' },
+  { font: 'sans', label: 'Sans serif' },
+  { font: 'serif', label: 'Serif' },
+  { font: 'mono', label: 'Monospace' },
+];
+
+// Positioned text; x and y are fractions of the GIF size
+interface TextBox {
+  text: string;
+  x: number;
+  y: number;
+}
+
+interface CaptionEditorProps {
+  gifUrl: string;
+  // Called with the URL of the captioned copy; the original result is left as it was
+  onApply: (captionedUrl: string) => void;
+  onClose: () => void;
+}
+
+const parseOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+export default function CaptionEditor({ gifUrl, onApply, onClose }: CaptionEditorProps) {
+  const [top, setTop] = useState('');
+  const [bottom, setBottom] = useState('');
+  const [boxes, setBoxes] = useState<TextBox[]>([]);
+  const [selectedBox, setSelectedBox] = useState<number | null>(null);
+  const [font, setFont] = useState('impact');
+  // Left empty, top and bottom captions shrink to fit and the outline follows the text size
+  const [size, setSize] = useState('');
+  const [strokeWidth, setStrokeWidth] = useState('');
+  const [colour, setColour] = useState('#ffffff');
+  const [strokeColour, setStrokeColour] = useState('#000000');
+  const [gifSize, setGifSize] = useState<{ width: number; height: number } | null>(null);
+  const [overlayUrl, setOverlayUrl] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const caption = {
+    top,
+    bottom,
+    boxes,
+    style: { font, colour, strokeColour, size: parseOptionalNumber(size), strokeWidth: parseOptionalNumber(strokeWidth) },
+  };
+  const captionKey = JSON.stringify(caption);
+
+  // The server lays the text out exactly as it will be drawn, and the overlay sits on top of the playing GIF
+  useEffect(() => {
+    if (!gifSize) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/captions/preview`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ...gifSize, caption: JSON.parse(captionKey) }),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          setOverlayUrl(null);
+          return;
+        }
+        const svg = await response.text();
+        setOverlayUrl(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+      } catch (previewError) {
+        if (!controller.signal.aborted) {
+          console.error('Caption preview error:', previewError);
+        }
+      }
+    }, 150);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [gifSize, captionKey]);
+
+  // Clicking the preview moves the selected text box there
+  const handlePreviewClick = (e: MouseEvent<HTMLDivElement>) => {
+    if (selectedBox === null) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    setBoxes(prev => prev.map((box, i) => (i === selectedBox ? { ...box, x, y } : box)));
+  };
+
+  const handleAddBox = () => {
+    setBoxes(prev => [...prev, { text: 'Text', x: 0.5, y: 0.5 }]);
+    setSelectedBox(boxes.length);
+  };
+
+  const handleRemoveBox = (index: number) => {
+    setBoxes(prev => prev.filter((_, i) => i !== index));
+    setSelectedBox(null);
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/edit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ gifUrl, operations: [{ op: 'caption', ...caption }] }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add caption');
+      }
+      onApply(data.url);
+    } catch (applyError) {
+      console.error('Caption error:', applyError);
+      setError(applyError instanceof Error ? applyError.message : 'Failed to add caption');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const inputClass = 'w-full border border-gray-300 rounded-sm px-3 py-2 text-sm focus:outline-none focus:border-black';
+  const labelClass = 'block text-xs text-gray-500 mb-1';
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      onClick={onClose}
+    >
+      <motion.div
+        role="dialog"
+        aria-label="Add caption"
+        className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-4 sm:p-6 text-left"
+        initial={{ scale: 0.95 }}
+        animate={{ scale: 1 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-light text-gray-800 mb-4">Add caption</h3>
+
+        <div className="flex flex-col md:flex-row gap-4 sm:gap-6">
+          <div className="md:flex-1 flex items-start justify-center bg-gray-100 rounded-lg p-2">
+            <div
+              className={`relative inline-block ${selectedBox !== null ? 'cursor-crosshair' : ''}`}
+              onClick={handlePreviewClick}
+            >
+              <img
+                src={gifUrl}
+                alt="Caption preview"
+                className="block max-w-full max-h-[60vh]"
+                onLoad={e => setGifSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              />
+              {overlayUrl && (
+                <img src={overlayUrl} alt="" className="absolute inset-0 w-full h-full pointer-events-none" />
+              )}
+            </div>
+          </div>
+
+          <div className="md:w-72 space-y-3">
+            <div>
+              <label className={labelClass} htmlFor="caption-top">Top text</label>
+              <input id="caption-top" className={inputClass} value={top} maxLength={200} onChange={e => setTop(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="caption-bottom">Bottom text</label>
+              <input id="caption-bottom" className={inputClass} value={bottom} maxLength={200} onChange={e => setBottom(e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass} htmlFor="caption-font">Font</label>
+                <select id="caption-font" className={inputClass} value={font} onChange={e => setFont(e.target.value)}>
+                  {CAPTION_FONTS.map(option => (
+                    <option key={option.font} value={option.font}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass} htmlFor="caption-size">Size (px)</label>
+                <input
+                  id="caption-size"
+                  type="number"
+                  min={8}
+                  max={400}
+                  placeholder="Auto"
+                  className={inputClass}
+                  value={size}
+                  onChange={e => setSize(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className={labelClass} htmlFor="caption-colour">Colour</label>
+                <input id="caption-colour" type="color" className="w-full h-9 cursor-pointer" value={colour} onChange={e => setColour(e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass} htmlFor="caption-stroke-colour">Outline</label>
+                <input
+                  id="caption-stroke-colour"
+                  type="color"
+                  className="w-full h-9 cursor-pointer"
+                  value={strokeColour}
+                  onChange={e => setStrokeColour(e.target.value)}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className={labelClass} htmlFor="caption-stroke-width">Outline width (px)</label>
+                <input
+                  id="caption-stroke-width"
+                  type="number"
+                  min={0}
+                  max={40}
+                  placeholder="Auto"
+                  className={inputClass}
+                  value={strokeWidth}
+                  onChange={e => setStrokeWidth(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-100 pt-3 space-y-2">
+              {boxes.map((box, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="caption-box"
+                    title="Select, then click the preview to move it"
+                    checked={selectedBox === index}
+                    onChange={() => setSelectedBox(index)}
+                  />
+                  <input
+                    className={inputClass}
+                    value={box.text}
+                    maxLength={200}
+                    aria-label={`Text box ${index + 1}`}
+                    onFocus={() => setSelectedBox(index)}
+                    onChange={e => setBoxes(prev => prev.map((b, i) => (i === index ? { ...b, text: e.target.value } : b)))}
+                  />
+                  <button
+                    onClick={() => handleRemoveBox(index)}
+                    className="text-xs text-gray-500 hover:text-gray-800 underline cursor-pointer"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              {selectedBox !== null && (
+                <p className="text-xs text-gray-500">Click the preview to move the selected text box.</p>
+              )}
+              {boxes.length < 10 && (
+                <button onClick={handleAddBox} className="text-xs text-gray-500 hover:text-gray-800 underline cursor-pointer">
+                  Add text box
+                </button>
+              )}
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+                <p className="text-xs sm:text-sm">{error}</p>
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <MotionButton onClick={handleApply} variant="primary" size="md" className="flex-1" disabled={isApplying || !overlayUrl}>
+                {isApplying ? 'Adding caption...' : 'Apply'}
+              </MotionButton>
+              <MotionButton onClick={onClose} variant="secondary" size="md">
+                Cancel
+              </MotionButton>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,10 +1,53 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { MotionButton } from './ui/motion-button';
+import CaptionEditor from './CaptionEditor';
 import { API_BASE_URL } from '../config';
 
+export interface ResultJob {
+  id: string;
+  status: string;
+  // "image" results are stills (PNG or JPEG) rather than GIFs
+  targetType?: 'gif' | 'image';
+  progress: number;
+}
+
+// Formats offered by the download menu, converted on the server by /api/export
+const EXPORT_FORMATS = [
+  { format: 'gif', label: 'GIF', extension: 'gif' },
+  { format: 'mp4', label: 'MP4 video', extension: 'mp4' },
+  { format: 'webm', label: 'WebM video', extension: 'webm' },
+  { format: 'apng', label: 'Animated PNG', extension: 'png' },
+  { format: 'webp', label: 'Animated WebP', extension: 'webp' },
+  { format: 'avif', label: 'AVIF (still image)', extension: 'avif' },
+];
+
+// Still results skip GIF optimization; they are offered in still formats at common image sizes
+const STILL_EXPORT_FORMATS = [
+  { format: 'png', label: 'PNG', extension: 'png' },
+  { format: 'jpeg', label: 'JPEG', extension: 'jpg' },
+  { format: 'webp', label: 'WebP', extension: 'webp' },
+];
+
+const STILL_EXPORT_SIZES = [
+  { width: undefined, label: 'Full size' },
+  { width: 1080, label: '1080px' },
+  { width: 720, label: '720px' },
+  { width: 512, label: '512px' },
+];
+
+// Destination limits served by /api/presets
+interface PlatformPreset {
+  id: string;
+  name: string;
+  format: string;
+}
+
 interface ResultDisplayProps {
   resultGifUrls: (string | null)[];
+  resultJobs?: ResultJob[];
+  onCancel?: (index: number) => void;
+  onRetry?: (index: number) => void;
   selectedGifs: string[];
   onReset: () => void;
   isProcessing?: boolean;
@@ -12,14 +55,57 @@ interface ResultDisplayProps {
   completedCount?: number;
 }
 
-export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProcessing, processingStatus }: ResultDisplayProps) {
+export default function EnhancedResultDisplay({ resultGifUrls, resultJobs = [], onCancel, onRetry, onReset, isProcessing, processingStatus }: ResultDisplayProps) {
   // Detect if the user is on a mobile device
   const isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
   const [hasSeenInstructions, setHasSeenInstructions] = useState(false);
+  const [isExportingPack, setIsExportingPack] = useState(false);
+  const [packError, setPackError] = useState<string | null>(null);
+  const [openMenuIndex, setOpenMenuIndex] = useState<number | null>(null);
+  const [exportingIndex, setExportingIndex] = useState<number | null>(null);
+  const [presets, setPresets] = useState<PlatformPreset[]>([]);
+  const [captioningIndex, setCaptioningIndex] = useState<number | null>(null);
+  // Captioned copies replace their result in this view, so downloads and shares pick them up
+  const [captionedUrls, setCaptionedUrls] = useState<Record<number, string>>({});
+  const shownUrls = resultGifUrls.map((url, index) => (url && captionedUrls[index]) || url);
+  const isStill = (index: number) => resultJobs[index]?.targetType === 'image';
+  const [stillWidth, setStillWidth] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    fetch(`${API_BASE_URL}/api/presets`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => data && setPresets(data.presets))
+      .catch(error => console.error('Failed to load presets:', error));
+  }, []);
+
+  // Stills are served ready to use, so they are saved as they are
+  const handleStillDownload = async (imageUrl: string, index: number) => {
+    try {
+      const response = await fetch(imageUrl);
+      if (!response.ok) {
+        throw new Error('Failed to fetch image');
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `reaction-${index + 1}.${blob.type === 'image/jpeg' ? 'jpg' : 'png'}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Download error:', error);
+      window.open(imageUrl, '_blank');
+    }
+  };
+
   const handleDownload = async (gifUrl: string, index: number) => {
+    if (isStill(index)) {
+      return handleStillDownload(gifUrl, index);
+    }
     try {
       const endpoint = `${API_BASE_URL}/api/optimize-gif`;
-      const mimeType = 'image/gif';
       
       const response = await fetch(endpoint, {
         method: 'POST',
@@ -33,26 +119,14 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
         throw new Error('Failed to process file');
       }
       
-      const { optimizedGif, format } = await response.json();
-      
-      // Convert base64 to blob
-      const base64Data = optimizedGif.split(',')[1];
-      const binaryString = atob(base64Data);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      
-      // Use the format from response
-      const actualMimeType = format === 'mp4' ? 'video/mp4' : mimeType;
-      const actualExtension = format === 'mp4' ? 'mp4' : 'gif';
-      const blob = new Blob([bytes], { type: actualMimeType });
+      // The optimized GIF comes back as raw bytes
+      const blob = await response.blob();
       
       // Create download link
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `reaction-${index + 1}.${actualExtension}`;
+      a.download = `reaction-${index + 1}.gif`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -76,6 +150,50 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
     }
   };
 
+  // Export in a format, or in a preset's preferred format within its size limits
+  const handleExport = async (gifUrl: string, index: number, format: string, preset?: PlatformPreset, width?: number) => {
+    const extension = [...EXPORT_FORMATS, ...STILL_EXPORT_FORMATS].find(option => option.format === format)?.extension ?? format;
+    const suffix = preset ? `-${preset.id}` : width ? `-${width}px` : '';
+    const filename = `reaction-${index + 1}${suffix}.${extension}`;
+    setOpenMenuIndex(null);
+    setExportingIndex(index);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/export`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ gifUrl, format, preset: preset?.id, width }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to export ${format}`);
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Export error:', error);
+
+      // Fallback to a direct link, which lets the browser show the server's error
+      const a = document.createElement('a');
+      a.href = `${API_BASE_URL}/api/export?format=${format}${preset ? `&preset=${preset.id}` : ''}${width ? `&width=${width}` : ''}&url=${encodeURIComponent(gifUrl)}`;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+    } finally {
+      setExportingIndex(null);
+    }
+  };
+
   const handleShare = async (gifUrl: string, index: number) => {
     // Show instructions on first click
     if (!hasSeenInstructions && isMobile) {
@@ -85,36 +203,28 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
     }
     
     try {
-      // Always try file share first to send the actual GIF
+      // Always try file share first to send the actual GIF; stills are shared as they are
       const endpoint = `${API_BASE_URL}/api/optimize-gif`;
       const mimeType = 'image/gif';
       
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ gifUrl }),
-      });
+      const response = isStill(index)
+        ? await fetch(gifUrl)
+        : await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ gifUrl }),
+          });
       
       if (!response.ok) {
         throw new Error('Failed to process file');
       }
       
-      const { optimizedGif, format } = await response.json();
-      
-      // Convert base64 to blob
-      const base64Data = optimizedGif.split(',')[1];
-      const binaryString = atob(base64Data);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      
-      // Use the format from response
-      const actualMimeType = format === 'mp4' ? 'video/mp4' : mimeType;
-      const actualExtension = format === 'mp4' ? 'mp4' : 'gif';
-      const blob = new Blob([bytes], { type: actualMimeType });
+      // The optimized GIF comes back as raw bytes
+      const blob = await response.blob();
+      const actualMimeType = blob.type || mimeType;
+      const actualExtension = actualMimeType === 'image/jpeg' ? 'jpg' : actualMimeType === 'image/png' ? 'png' : 'gif';
       
       // Try file sharing if available
       if (navigator.share && navigator.canShare) {
@@ -161,7 +271,7 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
       try {
         const a = document.createElement('a');
         a.href = `${API_BASE_URL}/api/download-gif?url=${encodeURIComponent(gifUrl)}`;
-        a.download = `reaction-${index + 1}.gif`;
+        a.download = `reaction-${index + 1}.${isStill(index) ? 'png' : 'gif'}`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
@@ -174,19 +284,67 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
   };
 
   const handleDownloadAll = async () => {
-    const validResults = resultGifUrls.filter(url => url && url.trim() !== '') as string[];
+    // Keep each result's own index so stills and GIFs are each saved the right way
+    const finished = shownUrls
+      .map((url, index) => ({ url, index }))
+      .filter(({ url }) => url && url.trim() !== '');
     
-    for (let i = 0; i < validResults.length; i++) {
-      await handleDownload(validResults[i], i);
-      if (i < validResults.length - 1) {
+    for (let i = 0; i < finished.length; i++) {
+      await handleDownload(finished[i].url as string, finished[i].index);
+      if (i < finished.length - 1) {
         await new Promise(resolve => setTimeout(resolve, 500));
       }
     }
   };
 
-  const validResults = resultGifUrls.filter(url => url && url.trim() !== '') as string[];
+  // Turn every finished reaction into a WhatsApp sticker pack and download it as a .wastickers file
+  const handleExportStickerPack = async () => {
+    setIsExportingPack(true);
+    setPackError(null);
+    try {
+      const createResponse = await fetch(`${API_BASE_URL}/api/stickers/packs`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: 'My Face Swap Reactions',
+          publisher: 'GifSwap',
+          stickers: validResults.map(gifUrl => ({ gifUrl })),
+        }),
+      });
+      const { pack, error } = await createResponse.json();
+      if (!createResponse.ok) {
+        throw new Error(error || 'Failed to create sticker pack');
+      }
+
+      const exportResponse = await fetch(`${API_BASE_URL}/api/stickers/packs/${pack.id}/export?format=wastickers`);
+      if (!exportResponse.ok) {
+        const { error: exportError } = await exportResponse.json();
+        throw new Error(exportError || 'Failed to export sticker pack');
+      }
+
+      const blob = await exportResponse.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'face-swap-reactions.wastickers';
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Sticker pack export error:', error);
+      setPackError(error instanceof Error ? error.message : 'Failed to export sticker pack');
+    } finally {
+      setIsExportingPack(false);
+    }
+  };
+
+  const validResults = shownUrls.filter(url => url && url.trim() !== '') as string[];
   const loadingCount = resultGifUrls.filter(url => url === null).length;
-  const failedCount = resultGifUrls.filter(url => url === '').length;
+  const canceledCount = resultJobs.filter(job => job.status === 'canceled').length;
+  const failedCount = resultGifUrls.filter(url => url === '').length - canceledCount;
 
   return (
     <motion.div 
@@ -202,7 +360,7 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
         transition={{ delay: 0.2 }}
       >
         {loadingCount > 0 
-          ? `Processing your reactions... (${validResults.length + failedCount} of ${resultGifUrls.length} completed)`
+          ? `Processing your reactions... (${validResults.length + failedCount + canceledCount} of ${resultGifUrls.length} completed)`
           : 'Your reactions are ready!'
         }
       </motion.h2>
@@ -240,7 +398,7 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
       )}
       
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6 mb-6 sm:mb-8 w-full">
-        {resultGifUrls.map((gifUrl, index) => (
+        {shownUrls.map((gifUrl, index) => (
           <motion.div 
             key={index} 
             className="bg-white rounded-xl shadow-lg overflow-hidden hover:shadow-xl transition-shadow duration-300 flex flex-col"
@@ -263,8 +421,16 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
                   </svg>
                 </motion.div>
                 <p className="text-xs sm:text-sm text-gray-500">
-                  Processing GIF #{index + 1}...
+                  Processing {isStill(index) ? 'image' : 'GIF'} #{index + 1}...{resultJobs[index]?.progress ? ` ${resultJobs[index].progress}%` : ''}
                 </p>
+                {onCancel && resultJobs[index] && (
+                  <button
+                    onClick={() => onCancel(index)}
+                    className="mt-3 text-xs text-gray-500 hover:text-gray-800 underline cursor-pointer"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
             ) : gifUrl && gifUrl.trim() !== '' ? (
               <>
@@ -305,30 +471,115 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
                           d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"
                         />
                       </svg>
-                      Share GIF
+                      {isStill(index) ? 'Share image' : 'Share GIF'}
                     </MotionButton>
                   ) : (
-                    <MotionButton
-                      onClick={() => handleDownload(gifUrl, index)}
-                      variant="primary"
-                      size="md"
-                      className="w-full flex items-center justify-center"
-                    >
-                      <svg
-                        className="w-4 h-4 mr-2"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
+                    <div className="relative flex gap-2">
+                      <MotionButton
+                        onClick={() => handleDownload(gifUrl, index)}
+                        variant="primary"
+                        size="md"
+                        className="flex-1 flex items-center justify-center"
+                        disabled={exportingIndex === index}
                       >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
-                        />
-                      </svg>
-                      Download GIF
-                    </MotionButton>
+                        <svg
+                          className="w-4 h-4 mr-2"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                          />
+                        </svg>
+                        {exportingIndex === index ? 'Converting...' : isStill(index) ? 'Download image' : 'Download GIF'}
+                      </MotionButton>
+                      <MotionButton
+                        onClick={() => setOpenMenuIndex(openMenuIndex === index ? null : index)}
+                        variant="secondary"
+                        size="md"
+                        title="More formats"
+                        aria-haspopup="menu"
+                        aria-expanded={openMenuIndex === index}
+                        disabled={exportingIndex === index}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                      </MotionButton>
+                      {openMenuIndex === index && (
+                        <div
+                          role="menu"
+                          className="absolute right-0 bottom-full mb-2 z-20 w-52 max-h-80 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg py-1 text-left"
+                        >
+                          {isStill(index) ? (
+                            <>
+                              <div className="flex flex-wrap gap-1 px-4 py-2" role="radiogroup" aria-label="Image size">
+                                {STILL_EXPORT_SIZES.map(({ width, label }) => (
+                                  <button
+                                    key={label}
+                                    role="radio"
+                                    aria-checked={stillWidth === width}
+                                    onClick={() => setStillWidth(width)}
+                                    className={`px-2 py-0.5 text-xs rounded-full border cursor-pointer ${
+                                      stillWidth === width ? 'bg-black text-white border-black' : 'text-gray-600 border-gray-300 hover:border-gray-500'
+                                    }`}
+                                  >
+                                    {label}
+                                  </button>
+                                ))}
+                              </div>
+                              {STILL_EXPORT_FORMATS.map(({ format, label }) => (
+                                <button
+                                  key={format}
+                                  role="menuitem"
+                                  onClick={() => handleExport(gifUrl, index, format, undefined, stillWidth)}
+                                  className="block w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 text-left cursor-pointer"
+                                >
+                                  {label}
+                                </button>
+                              ))}
+                            </>
+                          ) : EXPORT_FORMATS.map(({ format, label }) => (
+                            <button
+                              key={format}
+                              role="menuitem"
+                              onClick={() => handleExport(gifUrl, index, format)}
+                              className="block w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 text-left cursor-pointer"
+                            >
+                              {label}
+                            </button>
+                          ))}
+                          {/* Presets are limits for animations, which stills are always within */}
+                          {presets.length > 0 && !isStill(index) && (
+                            <div className="border-t border-gray-100 mt-1 pt-1">
+                              {presets.map(preset => (
+                                <button
+                                  key={preset.id}
+                                  role="menuitem"
+                                  onClick={() => handleExport(gifUrl, index, preset.format, preset)}
+                                  className="block w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 text-left cursor-pointer"
+                                >
+                                  Optimize for {preset.name}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {/* Captions are an edit operation, which would turn a still into a GIF */}
+                  {!isStill(index) && (
+                    <button
+                      onClick={() => setCaptioningIndex(index)}
+                      className="mt-2 text-xs text-gray-500 hover:text-gray-800 underline cursor-pointer"
+                    >
+                      {captionedUrls[index] ? 'Edit caption' : 'Add caption'}
+                    </button>
                   )}
                 </div>
               </>
@@ -343,14 +594,28 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
                   </svg>
                 </div>
                 <p className="text-xs sm:text-sm text-red-600 font-medium">
-                  Failed to process
+                  {resultJobs[index]?.status === 'canceled' ? 'Canceled' : 'Failed to process'}
                 </p>
+                {onRetry && resultJobs[index] && (
+                  <button
+                    onClick={() => onRetry(index)}
+                    className="mt-3 text-xs text-red-600 hover:text-red-800 underline cursor-pointer"
+                  >
+                    Retry this one
+                  </button>
+                )}
               </div>
             )}
           </motion.div>
         ))}
       </div>
 
+      {packError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg max-w-2xl mx-auto">
+          <p className="text-xs sm:text-sm">{packError}</p>
+        </div>
+      )}
+
       <motion.div 
         className="flex flex-col sm:flex-row gap-3 sm:gap-4 justify-center px-4 sm:px-0"
         initial={{ opacity: 0, y: 20 }}
@@ -380,6 +645,18 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
             Download All ({validResults.length})
           </MotionButton>
         )}
+
+        {/* WhatsApp packs need at least three stickers */}
+        {validResults.length >= 3 && loadingCount === 0 && (
+          <MotionButton
+            onClick={handleExportStickerPack}
+            variant="primary"
+            size="md"
+            disabled={isExportingPack}
+          >
+            {isExportingPack ? 'Building sticker pack...' : 'Export all as sticker pack'}
+          </MotionButton>
+        )}
         
         <MotionButton
           onClick={onReset}
@@ -389,6 +666,17 @@ export default function EnhancedResultDisplay({ resultGifUrls, onReset, isProces
           Create More
         </MotionButton>
       </motion.div>
+
+      {captioningIndex !== null && resultGifUrls[captioningIndex] && (
+        <CaptionEditor
+          gifUrl={resultGifUrls[captioningIndex] as string}
+          onApply={captionedUrl => {
+            setCaptionedUrls(prev => ({ ...prev, [captioningIndex]: captionedUrl }));
+            setCaptioningIndex(null);
+          }}
+          onClose={() => setCaptioningIndex(null)}
+        />
+      )}
     </motion.div>
   );
 }
\ No newline at end of file
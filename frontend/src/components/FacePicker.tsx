@@ -0,0 +1,83 @@
+import { motion } from 'framer-motion';
+import { MotionButton } from './ui/motion-button';
+import type { UploadedPhoto, DetectedFace } from '../lib/faces';
+
+interface FacePickerProps {
+  photo: UploadedPhoto;
+  faces: DetectedFace[];
+  onPick: (face: DetectedFace) => void;
+  onClose: () => void;
+}
+
+// Shown when an uploaded photo has several faces, so the user can say which one is theirs
+export default function FacePicker({ photo, faces, onPick, onClose }: FacePickerProps) {
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      onClick={onClose}
+    >
+      <motion.div
+        role="dialog"
+        aria-label="Choose a face"
+        className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-4 sm:p-6 text-left"
+        initial={{ scale: 0.95 }}
+        animate={{ scale: 1 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-light text-gray-800 mb-1">Choose a face</h3>
+        <p className="text-xs sm:text-sm text-gray-500 mb-4">
+          We found {faces.length} faces in this photo. Pick the one to swap in.
+        </p>
+
+        <div className="flex justify-center bg-gray-100 rounded-lg p-2 mb-4">
+          <div className="relative inline-block">
+            <img src={photo.base64Data} alt="Uploaded photo" className="block max-w-full max-h-[50vh]" />
+            {faces.map((face, index) => (
+              <button
+                key={index}
+                onClick={() => onPick(face)}
+                aria-label={`Face ${index + 1}`}
+                className="absolute border-2 border-white hover:border-black rounded-md shadow cursor-pointer transition-colors"
+                style={{
+                  left: percent(face.x, photo.width),
+                  top: percent(face.y, photo.height),
+                  width: percent(face.width, photo.width),
+                  height: percent(face.height, photo.height),
+                }}
+              >
+                <span className="absolute -top-3 -left-3 w-6 h-6 rounded-full bg-black text-white text-xs flex items-center justify-center">
+                  {index + 1}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-3 mb-4">
+          {faces.map((face, index) => (
+            <motion.button
+              key={index}
+              onClick={() => onPick(face)}
+              className="flex flex-col items-center cursor-pointer"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <img src={face.imageData} alt={`Face ${index + 1}`} className="w-16 h-16 rounded-lg object-cover" />
+              <span className="mt-1 text-xs text-gray-600">Face {index + 1}</span>
+            </motion.button>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <MotionButton onClick={onClose} variant="secondary" size="md">
+            Cancel
+          </MotionButton>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
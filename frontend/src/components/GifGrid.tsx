@@ -1,126 +1,20 @@
+import { useEffect, useState } from "react";
+import { catalogMedia, fetchCatalog } from "../lib/catalog";
+import type { Media } from "../lib/media";
+
 interface GifGridProps {
   onGifSelect: (gifUrl: string) => void;
   selectedGifs: string[];
 }
 
-interface Media {
-  id: string;
-  url: string;
-  title: string;
-  isAnimated: boolean;
-  type: "gif" | "image";
-}
-
-const POPULAR_MEDIA: Media[] = [
-  {
-    id: "side-eye-chloe",
-    url: "https://media1.giphy.com/media/v1.Y2lkPTc5MGI3NjExcHZhN2xtZGRtZ3ZsNmhqdHl3amF1b24yM2RyOGpwMG1xaHYxZnVnZiZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/kaq6GnxDlJaBq/giphy.gif",
-    title: "Side Eye Chloe",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "s239QJIh56sRW",
-    url: "https://media.giphy.com/media/s239QJIh56sRW/giphy.gif",
-    title: "GIF 1",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "bWM2eWYfN3r20",
-    url: "https://media.giphy.com/media/bWM2eWYfN3r20/giphy.gif",
-    title: "GIF 3",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "coffee-cup-meme",
-    url: "https://media.giphy.com/media/6pJNYBYSMFod2/giphy.gif",
-    title: "Coffee Cup Meme",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "white-guy-blink",
-    url: "https://media.giphy.com/media/l3q2K5jinAlChoCLS/giphy.gif",
-    title: "White Guy Blink",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "watermelon",
-    url: "https://media.giphy.com/media/13n7XeyIXEIrbG/giphy.gif",
-    title: "Watermelon",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "think-hmm",
-    url: "https://media.giphy.com/media/d3mlE7uhX8KFgEmY/giphy.gif",
-    title: "Think Hmm",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "shaq-shimmy",
-    url: "https://media.giphy.com/media/UO5elnTqo4vSg/giphy.gif",
-    title: "Shaq Shimmy",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "xL7PDV9frcudO",
-    url: "https://media1.giphy.com/media/v1.Y2lkPTc5MGI3NjExNDZ0cWJvNzk1cmEwMmhwNzdmdDhkdnNob2FqYjVhcTU0YTMzejEweSZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/xL7PDV9frcudO/giphy.gif",
-    title: "Confused Math Lady",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "cF7QqO5DYdft6",
-    url: "https://media2.giphy.com/media/v1.Y2lkPTc5MGI3NjExcTVyMXV1aGJ2OXp6Z2hhbmNsYnh0dnB5NmJndGU0NWJrMHl4NzQ5ayZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/cF7QqO5DYdft6/giphy.gif",
-    title: "Homer Simpson Backing Into Bushes",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "11ISwbgCxEzMyY",
-    url: "https://media0.giphy.com/media/v1.Y2lkPTc5MGI3NjExamt1YmpiNzgzbG53eGhrZ3FnaTZycnY2cWs1ZTM0cnczZHVoM20wcyZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/11ISwbgCxEzMyY/giphy.gif",
-    title: "Shaq Shaking Head",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "GpsHIJ4IBN7sn28ieH",
-    url: "https://media3.giphy.com/media/v1.Y2lkPTc5MGI3NjExbnplaHczMW5obms0NDI1ZXJ2dWx1Yml4NmprNWlremhvazU5amRxdiZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/GpsHIJ4IBN7sn28ieH/giphy.gif",
-    title: "Dog Reaction GIF",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "BPJmthQ3YRwD6QqcVD",
-    url: "https://media3.giphy.com/media/v1.Y2lkPTc5MGI3NjExOXRkY204OGhsNHdyYjAyazdrbGw3aXFkNnMyZGRrYW11OXFkd2lxNCZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/BPJmthQ3YRwD6QqcVD/giphy.gif",
-    title: "Surprised Pikachu",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "cXblnKXr2BQOaYnTni",
-    url: "https://media4.giphy.com/media/v1.Y2lkPTc5MGI3NjExbzE0Z280N2NweWNqcTg4a3k2bnF1bDYxcGQxODN6cnNkZWkyNnoweSZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/cXblnKXr2BQOaYnTni/giphy.gif",
-    title: "Crying Cat Thumbs Up",
-    isAnimated: true,
-    type: "gif",
-  },
-  {
-    id: "CycIvRahkUp0Y",
-    url: "https://media3.giphy.com/media/v1.Y2lkPTc5MGI3NjExbjV3azJ3YzZyM282YXc5eXo5eDR2NXJheW44dHdwMzViaGFodG1payZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/CycIvRahkUp0Y/giphy.gif",
-    title: "Success Kid",
-    isAnimated: true,
-    type: "gif",
-  },
-];
-
 export default function GifGrid({ onGifSelect, selectedGifs }: GifGridProps) {
-  console.log("GifGrid rendering with media:", POPULAR_MEDIA);
+  const [catalog, setCatalog] = useState<Media[]>([]);
+
+  useEffect(() => {
+    fetchCatalog({ pageSize: 100 })
+      .then((page) => setCatalog(page.items.map(catalogMedia)))
+      .catch((error) => console.error("Failed to load catalog:", error));
+  }, []);
 
   return (
     <div
@@ -132,7 +26,7 @@ export default function GifGrid({ onGifSelect, selectedGifs }: GifGridProps) {
         margin: "0 auto",
       }}
     >
-      {POPULAR_MEDIA.map((media) => (
+      {catalog.map((media) => (
         <div
           key={media.id}
           onClick={() => onGifSelect(media.url)}
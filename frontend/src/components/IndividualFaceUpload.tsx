@@ -2,7 +2,8 @@ import { useState, useRef, type DragEvent, type ChangeEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { springConfig } from './MotionTrackingProvider';
 import { MotionButton } from './ui/motion-button';
-import { API_BASE_URL } from '../config';
+import FacePicker from './FacePicker';
+import { confirmNoFace, uploadPhoto, type DetectedFace, type UploadedPhoto } from '../lib/faces';
 
 interface IndividualFaceUploadProps {
   selectedGifs: string[];
@@ -34,6 +35,9 @@ export default function IndividualFaceUpload({
     return initialStates;
   });
   
+  // A photo with several faces and the GIF it's for, waiting for the user to pick one
+  const [pendingPhoto, setPendingPhoto] = useState<{ gifUrl: string; photo: UploadedPhoto; faces: DetectedFace[] } | null>(null);
+
   const fileInputRefs = useRef<Record<string, HTMLInputElement>>({});
 
   const allFacesUploaded = Object.keys(faceMapping).length === selectedGifs.length;
@@ -85,41 +89,25 @@ export default function IndividualFaceUpload({
       [gifUrl]: { ...prev[gifUrl], isUploading: true }
     }));
 
-    const formData = new FormData();
-    formData.append('image', file);
-
     try {
-      const response = await fetch(`${API_BASE_URL}/api/upload`, {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error('Upload failed');
-      }
-
-      const data = await response.json();
-      
-      if (data.success && data.base64Data) {
+      const photo = await uploadPhoto(file);
+      if (photo.faces && photo.faces.length > 1) {
+        setPendingPhoto({ gifUrl, photo, faces: photo.faces });
         setUploadStates(prev => ({
           ...prev,
-          [gifUrl]: { 
-            ...prev[gifUrl], 
-            isUploading: false,
-            preview: data.base64Data 
-          }
+          [gifUrl]: { ...prev[gifUrl], isUploading: false }
         }));
-        
-        setFaceMapping(prev => ({
+      } else if (confirmNoFace(photo)) {
+        handleFaceReady(gifUrl, photo.base64Data);
+      } else {
+        setUploadStates(prev => ({
           ...prev,
-          [gifUrl]: data.base64Data
+          [gifUrl]: { ...prev[gifUrl], isUploading: false }
         }));
-      } else {
-        throw new Error(data.error || 'Upload failed');
       }
     } catch (error) {
       console.error('Upload error:', error);
-      alert('Failed to upload image. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to upload image. Please try again.');
       setUploadStates(prev => ({
         ...prev,
         [gifUrl]: { ...prev[gifUrl], isUploading: false }
@@ -127,6 +115,28 @@ export default function IndividualFaceUpload({
     }
   };
 
+  const handleFaceReady = (gifUrl: string, imageData: string) => {
+    setUploadStates(prev => ({
+      ...prev,
+      [gifUrl]: { 
+        ...prev[gifUrl], 
+        isUploading: false,
+        preview: imageData 
+      }
+    }));
+    
+    setFaceMapping(prev => ({
+      ...prev,
+      [gifUrl]: imageData
+    }));
+  };
+
+  const handleFacePick = (face: DetectedFace) => {
+    if (!pendingPhoto) return;
+    handleFaceReady(pendingPhoto.gifUrl, face.imageData);
+    setPendingPhoto(null);
+  };
+
   const handleProceed = () => {
     if (allFacesUploaded) {
       onAllFacesUploaded(faceMapping);
@@ -344,6 +354,15 @@ export default function IndividualFaceUpload({
           Process All Face Swaps
         </MotionButton>
       </motion.div>
+
+      {pendingPhoto && (
+        <FacePicker
+          photo={pendingPhoto.photo}
+          faces={pendingPhoto.faces}
+          onPick={handleFacePick}
+          onClose={() => setPendingPhoto(null)}
+        />
+      )}
     </motion.div>
   );
 }
\ No newline at end of file
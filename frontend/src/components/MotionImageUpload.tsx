@@ -1,7 +1,8 @@
 import { useState, useRef, type DragEvent, type ChangeEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { springConfig } from './MotionTrackingProvider';
-import { API_BASE_URL } from '../config';
+import FacePicker from './FacePicker';
+import { confirmNoFace, uploadPhoto, type DetectedFace, type UploadedPhoto } from '../lib/faces';
 
 interface MotionImageUploadProps {
   onImageUpload: (imageData: string) => void;
@@ -11,6 +12,8 @@ export default function MotionImageUpload({ onImageUpload }: MotionImageUploadPr
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
+  // A photo with several faces, waiting for the user to pick one
+  const [pendingPhoto, setPendingPhoto] = useState<{ photo: UploadedPhoto; faces: DetectedFace[] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
@@ -48,37 +51,33 @@ export default function MotionImageUpload({ onImageUpload }: MotionImageUploadPr
 
     setIsUploading(true);
 
-    const formData = new FormData();
-    formData.append('image', file);
-
     try {
-      const response = await fetch(`${API_BASE_URL}/api/upload`, {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error('Upload failed');
-      }
-
-      const data = await response.json();
-      
-      if (data.success && data.base64Data) {
-        setPreview(data.base64Data);
-        setTimeout(() => {
-          onImageUpload(data.base64Data);
-        }, 500);
-      } else {
-        throw new Error(data.error || 'Upload failed');
+      const photo = await uploadPhoto(file);
+      if (photo.faces && photo.faces.length > 1) {
+        setPendingPhoto({ photo, faces: photo.faces });
+      } else if (confirmNoFace(photo)) {
+        handleFaceReady(photo.base64Data);
       }
     } catch (error) {
       console.error('Upload error:', error);
-      alert('Failed to upload image. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to upload image. Please try again.');
     } finally {
       setIsUploading(false);
     }
   };
 
+  const handleFaceReady = (imageData: string) => {
+    setPreview(imageData);
+    setTimeout(() => {
+      onImageUpload(imageData);
+    }, 500);
+  };
+
+  const handleFacePick = (face: DetectedFace) => {
+    setPendingPhoto(null);
+    handleFaceReady(face.imageData);
+  };
+
   return (
     <motion.div 
       className="w-full max-w-md mx-auto px-4 sm:px-0"
@@ -190,6 +189,15 @@ export default function MotionImageUpload({ onImageUpload }: MotionImageUploadPr
           )}
         </AnimatePresence>
       </motion.div>
+
+      {pendingPhoto && (
+        <FacePicker
+          photo={pendingPhoto.photo}
+          faces={pendingPhoto.faces}
+          onPick={handleFacePick}
+          onClose={() => setPendingPhoto(null)}
+        />
+      )}
     </motion.div>
   );
 }
\ No newline at end of file
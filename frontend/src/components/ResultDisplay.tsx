@@ -27,26 +27,14 @@ export default function ResultDisplay({ resultGifUrls, onReset }: ResultDisplayP
         throw new Error('Failed to optimize GIF');
       }
       
-      const { optimizedGif, format } = await optimizeResponse.json();
-      
-      // Convert base64 to blob
-      const base64Data = optimizedGif.split(',')[1];
-      const binaryString = atob(base64Data);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      
-      // Use video/mp4 for WhatsApp compatibility
-      const mimeType = format === 'mp4' ? 'video/mp4' : 'image/gif';
-      const fileExtension = format === 'mp4' ? 'mp4' : 'gif';
-      const blob = new Blob([bytes], { type: mimeType });
+      // The optimized GIF comes back as raw bytes
+      const blob = await optimizeResponse.blob();
       
       // Create download link
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `whatsapp-reaction-${index + 1}.${fileExtension}`;
+      a.download = `whatsapp-reaction-${index + 1}.gif`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -57,7 +45,7 @@ export default function ResultDisplay({ resultGifUrls, onReset }: ResultDisplayP
       // Fallback to direct download
       try {
         const a = document.createElement('a');
-        a.href = `${API_BASE_URL}/api/download-whatsapp-video?url=${encodeURIComponent(gifUrl)}`;
+        a.href = `${API_BASE_URL}/api/export?format=mp4&url=${encodeURIComponent(gifUrl)}`;
         a.download = `whatsapp-reaction-${index + 1}.mp4`;
         document.body.appendChild(a);
         a.click();
@@ -90,20 +78,10 @@ export default function ResultDisplay({ resultGifUrls, onReset }: ResultDisplayP
         throw new Error('Failed to optimize GIF');
       }
       
-      const { optimizedGif, format } = await optimizeResponse.json();
-      
-      // Convert base64 to blob
-      const base64Data = optimizedGif.split(',')[1];
-      const binaryString = atob(base64Data);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      
-      // Use appropriate MIME type
-      const mimeType = format === 'mp4' ? 'video/mp4' : 'image/gif';
-      const fileExtension = format === 'mp4' ? 'mp4' : 'gif';
-      const blob = new Blob([bytes], { type: mimeType });
+      // The optimized GIF comes back as raw bytes
+      const blob = await optimizeResponse.blob();
+      const mimeType = blob.type || 'image/gif';
+      const fileExtension = 'gif';
       
       // Try file sharing if available
       if (navigator.share && navigator.canShare) {
@@ -149,7 +127,7 @@ export default function ResultDisplay({ resultGifUrls, onReset }: ResultDisplayP
       // Final fallback: direct download from server
       try {
         const a = document.createElement('a');
-        a.href = `${API_BASE_URL}/api/download-whatsapp-video?url=${encodeURIComponent(gifUrl)}`;
+        a.href = `${API_BASE_URL}/api/export?format=mp4&url=${encodeURIComponent(gifUrl)}`;
         a.download = `reaction-${index + 1}.mp4`;
         document.body.appendChild(a);
         a.click();
@@ -1,7 +1,14 @@
-import { type Ref, forwardRef, useState, useEffect, useRef } from "react";
+import { type ChangeEvent, type FormEvent, type Ref, forwardRef, useState, useEffect, useRef } from "react";
 import { motion, useMotionValue } from "framer-motion";
 
 import { cn } from "@/lib/utils";
+import { catalogMedia, fetchCatalog } from "@/lib/catalog";
+import { searchGifs, uploadTarget, type Media } from "@/lib/media";
+
+// Catalog memes shown, three rows of five on desktop
+const GALLERY_SIZE = 15;
+// Search results are shown ahead of the catalog, two desktop rows at a time
+const SEARCH_LIMIT = 10;
 
 export const PhotoGallery = ({
   animationDelay = 0.5,
@@ -9,12 +16,13 @@ export const PhotoGallery = ({
   selectedMemes = [],
 }: {
   animationDelay?: number;
-  onMemeSelect?: (memeUrl: string) => void;
+  onMemeSelect?: (memeUrl: string, media?: Media) => void;
   selectedMemes?: string[];
 }) => {
   const [isVisible, setIsVisible] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
   const [photoSize, setPhotoSize] = useState(220);
+  const [columns, setColumns] = useState(5);
   const galleryContainerRef = useRef<HTMLDivElement>(null);
   const isUpdatingSelection = useRef(false);
 
@@ -38,6 +46,7 @@ export const PhotoGallery = ({
   useEffect(() => {
     const handleResize = () => {
       const width = window.innerWidth;
+      setColumns(width < 640 ? 2 : width < 1024 ? 3 : 5);
       if (width < 640) {
         // Dynamic sizing for mobile: use ~35% of screen width for each GIF
         // This gives good spacing while maximizing GIF size
@@ -120,24 +129,92 @@ export const PhotoGallery = ({
     },
   };
 
-  // All memes from the original collection arranged in a grid layout
-  const allMemes = [
-    "https://media1.giphy.com/media/v1.Y2lkPTc5MGI3NjExcHZhN2xtZGRtZ3ZsNmhqdHl3amF1b24yM2RyOGpwMG1xaHYxZnVnZiZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/kaq6GnxDlJaBq/giphy.gif",
-    "https://media2.giphy.com/media/v1.Y2lkPTc5MGI3NjExenRhN3U0ZXNnbmZqc2ZoYXJuOGFrZnJ1eTY3OXBhd2czNXoxczdtdyZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/geEvRnbQqLYsb5WOr8/giphy.gif",
-    "https://media.giphy.com/media/bWM2eWYfN3r20/giphy.gif",
-    "https://media.giphy.com/media/6pJNYBYSMFod2/giphy.gif",
-    "https://media.giphy.com/media/l3q2K5jinAlChoCLS/giphy.gif",
-    "https://media.giphy.com/media/13n7XeyIXEIrbG/giphy.gif",
-    "https://media.giphy.com/media/d3mlE7uhX8KFgEmY/giphy.gif",
-    "https://media.giphy.com/media/UO5elnTqo4vSg/giphy.gif",
-    "https://media1.giphy.com/media/v1.Y2lkPTc5MGI3NjExNDZ0cWJvNzk1cmEwMmhwNzdmdDhkdnNob2FqYjVhcTU0YTMzejEweSZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/xL7PDV9frcudO/giphy.gif",
-    "https://media2.giphy.com/media/v1.Y2lkPTc5MGI3NjExcTVyMXV1aGJ2OXp6Z2hhbmNsYnh0dnB5NmJndGU0NWJrMHl4NzQ5ayZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/cF7QqO5DYdft6/giphy.gif",
-    "https://media0.giphy.com/media/v1.Y2lkPTc5MGI3NjExamt1YmpiNzgzbG53eGhrZ3FnaTZycnY2cWs1ZTM0cnczZHVoM20wcyZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/11ISwbgCxEzMyY/giphy.gif",
-    "https://media3.giphy.com/media/v1.Y2lkPTc5MGI3NjExbnplaHczMW5obms0NDI1ZXJ2dWx1Yml4NmprNWlremhvazU5amRxdiZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/GpsHIJ4IBN7sn28ieH/giphy.gif",
-    "https://media3.giphy.com/media/v1.Y2lkPTc5MGI3NjExOXRkY204OGhsNHdyYjAyazdrbGw3aXFkNnMyZGRrYW11OXFkd2lxNCZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/BPJmthQ3YRwD6QqcVD/giphy.gif",
-    "https://media4.giphy.com/media/v1.Y2lkPTc5MGI3NjExbzE0Z280N2NweWNqcTg4a3k2bnF1bDYxcGQxODN6cnNkZWkyNnoweSZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/cXblnKXr2BQOaYnTni/giphy.gif",
-    "https://media3.giphy.com/media/v1.Y2lkPTc5MGI3NjExbjV3azJ3YzZyM282YXc5eXo5eDR2NXJheW44dHdwMzViaGFodG1payZlcD12MV9pbnRlcm5hbF9naWZfYnlfaWQmY3Q9Zw/CycIvRahkUp0Y/giphy.gif",
-  ];
+  // Memes come from the server catalog, in catalog order
+  const [memes, setMemes] = useState<Media[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<Media[]>([]);
+  const [searchSummary, setSearchSummary] = useState<{ query: string; provider: string } | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  // Search results the user picked, kept in the gallery after the next search replaces the results
+  const [pickedMedia, setPickedMedia] = useState<Record<string, Media>>({});
+  // The user's own GIFs and clips, newest first
+  const [uploadedMedia, setUploadedMedia] = useState<Media[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchCatalog({ pageSize: GALLERY_SIZE })
+      .then((page) => setMemes(page.items.map(catalogMedia)))
+      .catch((error) => console.error("Failed to load catalog:", error));
+  }, []);
+
+  const handleSearch = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) {
+      handleClearSearch();
+      return;
+    }
+
+    setIsSearching(true);
+    setSearchError(null);
+    setUploadError(null);
+    try {
+      const page = await searchGifs(query, { limit: SEARCH_LIMIT });
+      setSearchResults(page.items);
+      setSearchSummary({ query, provider: page.provider });
+    } catch (error) {
+      console.error("GIF search error:", error);
+      setSearchError(error instanceof Error ? error.message : "GIF search failed");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const target = await uploadTarget(file);
+      const media: Media = {
+        id: target.id,
+        url: target.url,
+        title: file.name,
+        isAnimated: target.frames > 1,
+        type: "gif",
+      };
+      setUploadedMedia((prev) => [media, ...prev.filter((other) => other.url !== media.url)]);
+      if (onMemeSelect && !selectedMemes.includes(media.url) && selectedMemes.length < 5) {
+        onMemeSelect(media.url, media);
+      }
+    } catch (error) {
+      console.error("Target upload error:", error);
+      setUploadError(error instanceof Error ? error.message : "Upload failed");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleClearSearch = () => {
+    setSearchQuery("");
+    setSearchResults([]);
+    setSearchSummary(null);
+    setSearchError(null);
+  };
+
+  // Uploads first, then results, then earlier picks that are still selected, then the catalog, without repeats
+  const allMedia = [
+    ...uploadedMedia,
+    ...searchResults,
+    ...Object.values(pickedMedia).filter((media) => selectedMemes.includes(media.url)),
+    ...memes,
+  ].filter((media, index, list) => list.findIndex((other) => other.url === media.url) === index);
 
   // Check if we're in 2-column mode (mobile)
   const [isMobile, setIsMobile] = useState(false);
@@ -152,11 +229,11 @@ export const PhotoGallery = ({
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
   
-  // Use only 14 GIFs for 2-column layout, all 15 for other layouts
-  const displayMemes = isMobile ? allMemes.slice(0, 14) : allMemes;
+  // Keep an even number of GIFs for the 2-column layout, all of them for other layouts
+  const displayMemes = isMobile ? allMedia.slice(0, allMedia.length - (allMedia.length % 2)) : allMedia;
   
   // Generate responsive grid positions for display memes
-  const photos = displayMemes.map((src, index) => {
+  const photos = displayMemes.map((meme, index) => {
     // Mobile layout: 2 columns with dynamic sizing
     const mobileRow = Math.floor(index / 2);
     const mobileCol = index % 2;
@@ -193,11 +270,18 @@ export const PhotoGallery = ({
       desktopY: `${desktopY}px`,
       zIndex: 50 - index,
       direction: (index % 2 === 0 ? "left" : "right") as Direction,
-      src: src,
+      src: meme.previewUrl ?? meme.url,
+      url: meme.url,
+      title: meme.title,
     };
   });
 
   const handleMemeClick = (memeUrl: string) => {
+    const searchResult = searchResults.find((media) => media.url === memeUrl);
+    if (searchResult) {
+      setPickedMedia((prev) => ({ ...prev, [memeUrl]: searchResult }));
+    }
+
     // Set flag to prevent scroll restoration side effects
     isUpdatingSelection.current = true;
     
@@ -206,7 +290,7 @@ export const PhotoGallery = ({
     const windowScroll = window.pageYOffset || document.documentElement.scrollTop;
     
     if (onMemeSelect) {
-      onMemeSelect(memeUrl);
+      onMemeSelect(memeUrl, allMedia.find((media) => media.url === memeUrl));
     }
     
     // Restore scroll positions immediately
@@ -248,6 +332,52 @@ export const PhotoGallery = ({
       <p className="text-xs sm:text-sm lg:text-md mb-4 sm:mb-6 lg:mb-8 text-center font-light uppercase tracking-widest text-slate-600 dark:text-slate-400">
         Choose from below (can select multiple)
       </p>
+      <form onSubmit={handleSearch} className="flex gap-2 max-w-md mx-auto mb-2 px-4" role="search">
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search for more GIFs"
+          aria-label="Search GIFs"
+          maxLength={100}
+          className="flex-1 min-w-0 border border-slate-300 rounded-sm px-3 py-2 text-sm bg-white focus:outline-none focus:border-slate-900"
+        />
+        <button
+          type="submit"
+          disabled={isSearching}
+          className="px-4 py-2 text-sm font-light bg-black hover:bg-gray-800 text-white rounded-sm cursor-pointer disabled:opacity-50"
+        >
+          {isSearching ? "Searching..." : "Search"}
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          title="GIF, MP4, WebM or MOV. Long clips are shortened."
+          className="px-4 py-2 text-sm font-light border border-slate-300 hover:border-slate-900 rounded-sm cursor-pointer whitespace-nowrap disabled:opacity-50"
+        >
+          {isUploading ? "Uploading..." : "Upload your own"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/gif,video/mp4,video/webm,video/quicktime,.mov"
+          onChange={handleUpload}
+          className="hidden"
+        />
+      </form>
+      <div className="min-h-5 mb-2 text-xs text-center text-slate-500">
+        {uploadError || searchError ? (
+          <span className="text-red-600">{uploadError || searchError}</span>
+        ) : searchSummary && (
+          <>
+            {searchResults.length} results for "{searchSummary.query}" via {searchSummary.provider}{" "}
+            <button onClick={handleClearSearch} className="underline hover:text-slate-800 cursor-pointer">
+              Clear
+            </button>
+          </>
+        )}
+      </div>
       <div className="h-6 mb-2">
         {selectedMemes.length > 0 && (
           <p className="text-xs sm:text-sm text-center font-medium text-slate-700 dark:text-slate-300">
@@ -271,7 +401,15 @@ export const PhotoGallery = ({
             initial="hidden"
             animate={isLoaded ? "visible" : "hidden"}
           >
-            <div className={`relative ${isMobile ? '' : 'sm:h-[1000px] lg:h-[720px]'} w-full sm:w-[900px] lg:w-[1300px] mb-4 sm:mb-8`} style={isMobile ? { height: `${Math.ceil(displayMemes.length / 2) * (photoSize + 40) + 20}px` } : {}}>
+            <div
+              className="relative w-full sm:w-[900px] lg:w-[1300px] mb-4 sm:mb-8"
+              style={{
+                height: isMobile
+                  ? `${Math.ceil(displayMemes.length / 2) * (photoSize + 40) + 20}px`
+                  // Grows with search results: rows are 240px apart on tablets and 260px on desktop
+                  : `${(Math.ceil(displayMemes.length / columns) - 1) * (columns === 3 ? 240 : 260) + photoSize + 20}px`,
+              }}
+            >
               {/* Render photos in reverse order so that higher z-index photos are rendered later in the DOM */}
               {[...photos].reverse().map((photo) => (
                 <motion.div
@@ -293,15 +431,15 @@ export const PhotoGallery = ({
                     width={photoSize}
                     height={photoSize}
                     src={photo.src}
-                    alt="Meme"
+                    alt={photo.title}
                     direction={photo.direction}
                     onClick={(e) => {
                       e.preventDefault();
                       e.stopPropagation();
-                      handleMemeClick(photo.src);
+                      handleMemeClick(photo.url);
                     }}
-                    isSelected={selectedMemes.includes(photo.src)}
-                    isDisabled={selectedMemes.length >= 5 && !selectedMemes.includes(photo.src)}
+                    isSelected={selectedMemes.includes(photo.url)}
+                    isDisabled={selectedMemes.length >= 5 && !selectedMemes.includes(photo.url)}
                   />
                 </motion.div>
               ))}
@@ -0,0 +1,59 @@
+import { API_BASE_URL } from '../config';
+import type { Media } from './media';
+
+// A meme from the server catalog (GET /api/catalog)
+export interface CatalogEntry {
+  id: string;
+  title: string;
+  sourceUrl: string;
+  type: 'gif' | 'image';
+  category: string;
+  tags: string[];
+  // Null until the server has read the source file
+  width: number | null;
+  height: number | null;
+  frames: number | null;
+  faces: number | null;
+}
+
+export interface CatalogPage {
+  items: CatalogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  categories: { id: string; count: number }[];
+}
+
+export interface CatalogQuery {
+  category?: string;
+  tag?: string;
+  q?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export async function fetchCatalog(query: CatalogQuery = {}): Promise<CatalogPage> {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+
+  const response = await fetch(`${API_BASE_URL}/api/catalog?${params}`);
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Failed to load catalog');
+  }
+  return response.json();
+}
+
+export function catalogMedia(entry: CatalogEntry): Media {
+  return {
+    id: entry.id,
+    url: entry.sourceUrl,
+    title: entry.title,
+    // Unprobed GIFs are assumed to be animated
+    isAnimated: entry.type === 'gif' && (entry.frames === null || entry.frames > 1),
+    type: entry.type,
+  };
+}
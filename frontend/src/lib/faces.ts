@@ -0,0 +1,44 @@
+import { API_BASE_URL } from '../config';
+
+// A face found in an uploaded photo; the box is in pixels of the upright photo
+export interface DetectedFace {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+  // JPEG data URL of the face with some room around it, used as the swap source
+  imageData: string;
+}
+
+export interface UploadedPhoto {
+  // The whole photo as a JPEG data URL
+  base64Data: string;
+  width: number;
+  height: number;
+  // Largest first, or null when the server doesn't run face detection. Empty when a detector that
+  // can miss faces found none; a dependable detector rejects those photos instead
+  faces: DetectedFace[] | null;
+}
+
+// Ask before using a photo the server couldn't find a face in
+export function confirmNoFace(photo: UploadedPhoto): boolean {
+  return photo.faces?.length !== 0 ||
+    window.confirm("We couldn't find a face in this photo, so the swap may not work. Use it anyway?");
+}
+
+// Upload a photo of the user's face. Photos without a face are rejected with the server's explanation
+export async function uploadPhoto(file: File): Promise<UploadedPhoto> {
+  const formData = new FormData();
+  formData.append('image', file);
+
+  const response = await fetch(`${API_BASE_URL}/api/upload`, {
+    method: 'POST',
+    body: formData,
+  });
+  const data = await response.json().catch(() => ({ error: null }));
+  if (!response.ok || !data.base64Data) {
+    throw new Error(data.error || 'Failed to upload image. Please try again.');
+  }
+  return data;
+}
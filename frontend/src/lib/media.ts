@@ -0,0 +1,62 @@
+import { API_BASE_URL } from '../config';
+
+// A selectable GIF or image, whether it comes from the catalog or a GIF search
+export interface Media {
+  id: string;
+  // Full-size file, used as the swap target
+  url: string;
+  title: string;
+  isAnimated: boolean;
+  type: 'gif' | 'image';
+  // Smaller rendition for thumbnails, when the source has one
+  previewUrl?: string;
+}
+
+export interface GifSearchPage {
+  provider: string;
+  items: Media[];
+  // Cursor for the following page, or null at the end
+  next: string | null;
+}
+
+export async function searchGifs(q: string, options: { limit?: number; cursor?: string } = {}): Promise<GifSearchPage> {
+  const params = new URLSearchParams({ q });
+  if (options.limit) params.set('limit', String(options.limit));
+  if (options.cursor) params.set('cursor', options.cursor);
+
+  const response = await fetch(`${API_BASE_URL}/api/search/gifs?${params}`);
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'GIF search failed');
+  }
+  return response.json();
+}
+
+export interface UploadedTarget {
+  id: string;
+  // Hosted GIF, ready to use as a swap target
+  url: string;
+  sourceType: 'gif' | 'mp4' | 'webm' | 'mov';
+  converted: boolean;
+  width: number;
+  height: number;
+  frames: number;
+  durationMs: number;
+  size: number;
+}
+
+// Upload the user's own GIF or video clip; videos come back converted to a GIF
+export async function uploadTarget(file: File): Promise<UploadedTarget> {
+  const formData = new FormData();
+  formData.append('target', file);
+
+  const response = await fetch(`${API_BASE_URL}/api/upload-target`, {
+    method: 'POST',
+    body: formData,
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || 'Upload failed');
+  }
+  return response.json();
+}